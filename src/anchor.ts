@@ -0,0 +1,135 @@
+import { AnnotationAnchor } from './types';
+
+/** Number of lines captured above and below the annotated line */
+const CONTEXT_LINES = 3;
+
+/** Matches scoring below this are reported instead of being moved */
+export const MIN_ANCHOR_CONFIDENCE = 0.7;
+
+// Weight of the annotated line itself versus its surrounding context
+const LINE_WEIGHT = 0.6;
+const CONTEXT_WEIGHT = 0.4;
+
+export interface AnchorMatch {
+  /** 1-indexed line the anchor was found at */
+  line: number;
+  /** Score between 0 and 1 */
+  confidence: number;
+}
+
+/**
+ * Split document text into lines, accepting both LF and CRLF endings
+ */
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/**
+ * Build an anchor fingerprint for a 1-indexed line
+ */
+export function createAnchor(lines: string[], line: number): AnnotationAnchor {
+  const index = clamp(line - 1, 0, Math.max(0, lines.length - 1));
+  return {
+    text: lines[index] ?? '',
+    before: lines.slice(Math.max(0, index - CONTEXT_LINES), index),
+    after: lines.slice(index + 1, index + 1 + CONTEXT_LINES)
+  };
+}
+
+/**
+ * Find the line that best matches an anchor, preferring candidates closest
+ * to the 1-indexed hint line when scores are tied.
+ */
+export function locateAnchor(
+  lines: string[],
+  anchor: AnnotationAnchor,
+  hintLine: number
+): AnchorMatch {
+  const hintIndex = hintLine - 1;
+
+  // Fast path: the annotation has not moved
+  if (hintIndex >= 0 && hintIndex < lines.length && scoreCandidate(lines, anchor, hintIndex) === 1) {
+    return { line: hintLine, confidence: 1 };
+  }
+
+  let best: AnchorMatch = { line: hintLine, confidence: 0 };
+  let bestDistance = Number.MAX_SAFE_INTEGER;
+
+  for (let i = 0; i < lines.length; i++) {
+    const score = scoreCandidate(lines, anchor, i);
+    const distance = Math.abs(i - hintIndex);
+    if (score > best.confidence + 0.001 ||
+        (Math.abs(score - best.confidence) <= 0.001 && distance < bestDistance)) {
+      best = { line: i + 1, confidence: score };
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function scoreCandidate(lines: string[], anchor: AnnotationAnchor, index: number): number {
+  const lineScore = similarity(lines[index], anchor.text);
+  // Skip context comparison for lines that clearly don't match
+  if (lineScore < 0.5) {
+    return lineScore * LINE_WEIGHT;
+  }
+
+  const contextScores: number[] = [];
+  anchor.before.forEach((text, offset) => {
+    const candidate = lines[index - anchor.before.length + offset];
+    contextScores.push(candidate === undefined ? 0 : similarity(candidate, text));
+  });
+  anchor.after.forEach((text, offset) => {
+    const candidate = lines[index + 1 + offset];
+    contextScores.push(candidate === undefined ? 0 : similarity(candidate, text));
+  });
+
+  if (contextScores.length === 0) {
+    return lineScore;
+  }
+
+  const contextScore = contextScores.reduce((sum, s) => sum + s, 0) / contextScores.length;
+  return lineScore * LINE_WEIGHT + contextScore * CONTEXT_WEIGHT;
+}
+
+/**
+ * Dice coefficient over character bigrams, ignoring whitespace differences
+ */
+export function similarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+
+  if (left === right) {
+    return 1;
+  }
+  if (left.length < 2 || right.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -1,5 +1,18 @@
 import * as vscode from 'vscode';
-import { Annotation, truncateText, isMultiLine } from './types';
+import {
+  Annotation,
+  ClosedAnnotationDisplay,
+  truncateText,
+  isMultiLine,
+  isRangeAnnotation,
+  isClosed,
+  getSeverityIcon,
+  getStatus,
+  getStatusLabel,
+  isPrivate
+} from './types';
+import { describeRevision } from './branchScope';
+import { AnnotationRepository } from './annotationRepositories';
 
 export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
   private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
@@ -7,6 +20,9 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
 
   private annotations: Map<string, Annotation[]> = new Map();
   private enabled: boolean = true;
+  private closedDisplay: ClosedAnnotationDisplay = 'dimmed';
+  private getSource: (annotation: Annotation) => AnnotationRepository | undefined = () => undefined;
+  private isMentioned: (annotation: Annotation) => boolean = () => false;
 
   /**
    * Update annotations for a specific file
@@ -32,6 +48,22 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
     this._onDidChangeCodeLenses.fire();
   }
 
+  /**
+   * Label annotations with the repository they came from
+   */
+  setSourceResolver(getSource: (annotation: Annotation) => AnnotationRepository | undefined): void {
+    this.getSource = getSource;
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  /**
+   * Highlight annotations that mention the current user
+   */
+  setMentionChecker(isMentioned: (annotation: Annotation) => boolean): void {
+    this.isMentioned = isMentioned;
+    this._onDidChangeCodeLenses.fire();
+  }
+
   /**
    * Enable or disable the provider
    */
@@ -40,6 +72,14 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
     this._onDidChangeCodeLenses.fire();
   }
 
+  /**
+   * Choose how resolved and won't-fix annotations are shown
+   */
+  setClosedDisplay(display: ClosedAnnotationDisplay): void {
+    this.closedDisplay = display;
+    this._onDidChangeCodeLenses.fire();
+  }
+
   /**
    * Refresh the code lenses
    */
@@ -48,8 +88,7 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
   }
 
   provideCodeLenses(
-    document: vscode.TextDocument,
-    _token: vscode.CancellationToken
+    document: vscode.TextDocument
   ): vscode.CodeLens[] {
     if (!this.enabled) {
       return [];
@@ -64,7 +103,7 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
     // Find annotations for this file by checking each stored key
     // Use a Set to deduplicate by annotation ID in case of path key collisions
     const seenIds = new Set<string>();
-    let fileAnnotations: Annotation[] = [];
+    const fileAnnotations: Annotation[] = [];
     for (const [storedPath, annotations] of this.annotations) {
       const normalizedStoredPath = storedPath.replace(/\\/g, '/');
       // Check if this stored path matches the current document
@@ -88,16 +127,41 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
         continue;
       }
 
+      const closed = isClosed(annotation);
+      if (closed && this.closedDisplay === 'hidden') {
+        continue;
+      }
+      const dimmed = closed && this.closedDisplay === 'dimmed';
+
       const range = new vscode.Range(line, 0, line, 0);
 
       // Create display text
       const hasMultipleLines = isMultiLine(annotation.text);
-      const displayText = truncateText(annotation.text, 80);
-      const icon = hasMultipleLines ? '📝' : '💬';
+      // Dimmed annotations are kept short so they don't draw attention
+      const displayText = truncateText(annotation.text, dimmed ? 40 : 80);
+      const icon = dimmed ? '✓' : annotation.severity
+        ? `${getSeverityIcon(annotation.severity)} [${annotation.severity.toUpperCase()}]`
+        : (hasMultipleLines ? '📝' : '💬');
       const moreIndicator = hasMultipleLines ? ' [+]' : '';
+      const replyCount = annotation.replies?.length || 0;
+      const rangeIndicator = isRangeAnnotation(annotation) && annotation.endLine !== annotation.line
+        ? ` [lines ${annotation.line}-${annotation.endLine}]`
+        : '';
+      const tagIndicator = annotation.tags && annotation.tags.length > 0
+        ? ` ${annotation.tags.map(tag => `#${tag}`).join(' ')}`
+        : '';
+      const status = getStatus(annotation);
+      const statusIndicator = status !== 'open' ? ` [${getStatusLabel(status)}]` : '';
+      const privateIndicator = isPrivate(annotation) ? '🔒 ' : '';
+      const mentionIndicator = this.isMentioned(annotation) ? '🔔 ' : '';
+      const source = this.getSource(annotation);
+      const sourceIndicator = source ? `[${source.name}] ` : '';
+      const replyIndicator = replyCount > 0
+        ? ` (${replyCount} ${replyCount === 1 ? 'reply' : 'replies'})`
+        : '';
 
       const codeLens = new vscode.CodeLens(range, {
-        title: `${icon} ${annotation.author}: ${displayText}${moreIndicator}`,
+        title: `${mentionIndicator}${privateIndicator}${sourceIndicator}${icon} ${annotation.author}: ${displayText}${moreIndicator}${rangeIndicator}${tagIndicator}${statusIndicator}${replyIndicator}`,
         command: '',  // No-op command - clicking does nothing (interaction via comment threads)
         tooltip: this.createTooltip(annotation)
       });
@@ -109,13 +173,23 @@ export class AnnotationCodeLensProvider implements vscode.CodeLensProvider {
   }
 
   private createTooltip(annotation: Annotation): string {
+    const source = this.getSource(annotation);
     const date = new Date(annotation.timestamp);
     const lines = [
-      `Annotation by ${annotation.author}`,
+      `${isPrivate(annotation) ? 'Private annotation' : 'Annotation'} by ${annotation.author}`,
+      ...(annotation.severity ? [`Severity: ${annotation.severity}`] : []),
+      ...(annotation.category ? [`Category: ${annotation.category}`] : []),
+      `Status: ${getStatusLabel(getStatus(annotation))}`,
+      ...(describeRevision(annotation) ? [`Branch: ${describeRevision(annotation)}`] : []),
+      ...(source ? [`Repository: ${source.name}${source.readOnly ? ' (read-only)' : ''}`] : []),
+      ...(this.isMentioned(annotation) ? ['Mentions you'] : []),
       `${date.toLocaleString()}`,
       '',
       annotation.text
     ];
+    for (const reply of annotation.replies || []) {
+      lines.push('', `${reply.author} (${new Date(reply.timestamp).toLocaleString()}):`, reply.text);
+    }
     return lines.join('\n');
   }
 }
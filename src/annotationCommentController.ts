@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { randomUUID } from 'crypto';
-import { Annotation } from './types';
+import { Annotation, isRangeAnnotation, isClosed, getSeverityIcon, getStatusLabel, isPrivate } from './types';
+import { AnnotationRepository } from './annotationRepositories';
 
 interface ThreadMetadata {
   annotationId?: string;
@@ -23,6 +24,10 @@ export class AnnotationComment implements vscode.Comment {
   id: string;
   label: string | undefined;
   savedBody: string | vscode.MarkdownString;
+  /** Text as written, edited in place of a rendered body */
+  text: string;
+  /** Set for replies; the root comment of a thread is the annotation itself */
+  replyId?: string;
 
   constructor(
     public body: string | vscode.MarkdownString,
@@ -33,12 +38,13 @@ export class AnnotationComment implements vscode.Comment {
   ) {
     this.id = randomUUID();
     this.savedBody = body;
+    this.text = typeof body === 'string' ? body : body.value;
   }
 }
 
 export type AnnotationSaveHandler = (
   filePath: string,
-  line: number,
+  range: vscode.Range,
   text: string,
   author: string
 ) => Promise<void>;
@@ -50,15 +56,41 @@ export type AnnotationEditHandler = (
   newText: string
 ) => Promise<void>;
 
+export type AnnotationReplyHandler = (
+  annotationId: string,
+  replyId: string,
+  text: string,
+  author: string
+) => Promise<void>;
+
+export type AnnotationReplyEditHandler = (
+  annotationId: string,
+  replyId: string,
+  newText: string
+) => Promise<void>;
+
+export type AnnotationReplyDeleteHandler = (
+  annotationId: string,
+  replyId: string
+) => Promise<void>;
+
 export class AnnotationCommentController implements vscode.Disposable {
   private commentController: vscode.CommentController;
   private threads: Map<string, vscode.CommentThread> = new Map();
   private disposables: vscode.Disposable[] = [];
   private defaultAuthorName: string = 'Unknown';
+  private getSource: (annotation: Annotation) => AnnotationRepository | undefined = () => undefined;
+  private isMentioned: (annotation: Annotation) => boolean = () => false;
+  private renderText: (text: string, annotation: Annotation) => string | vscode.MarkdownString = text => text;
+  // Threads to show expanded the next time they are rebuilt, e.g. after a reply
+  private expandOnNextRender: Set<string> = new Set();
 
   private onSave: AnnotationSaveHandler | undefined;
   private onDelete: AnnotationDeleteHandler | undefined;
   private onEdit: AnnotationEditHandler | undefined;
+  private onReply: AnnotationReplyHandler | undefined;
+  private onEditReply: AnnotationReplyEditHandler | undefined;
+  private onDeleteReply: AnnotationReplyDeleteHandler | undefined;
 
   constructor() {
     this.commentController = vscode.comments.createCommentController(
@@ -92,6 +124,16 @@ export class AnnotationCommentController implements vscode.Disposable {
     this.onEdit = onEdit;
   }
 
+  setReplyHandlers(
+    onReply: AnnotationReplyHandler,
+    onEditReply: AnnotationReplyEditHandler,
+    onDeleteReply: AnnotationReplyDeleteHandler
+  ): void {
+    this.onReply = onReply;
+    this.onEditReply = onEditReply;
+    this.onDeleteReply = onDeleteReply;
+  }
+
   private registerCommands(): void {
     // Command to create a new annotation from the comment input
     this.disposables.push(
@@ -162,10 +204,17 @@ export class AnnotationCommentController implements vscode.Disposable {
       return;
     }
 
+    // Replying to an existing annotation rather than creating one
+    const existingAnnotationId = getThreadMetadata(thread).annotationId;
+    if (existingAnnotationId) {
+      await this.handleReply(thread, existingAnnotationId, text);
+      return;
+    }
+
     // Get author info - prefer thread-specific, fall back to default
     const author = getThreadMetadata(thread).authorName || this.defaultAuthorName;
     const uri = thread.uri;
-    const line = (thread.range?.start.line ?? 0) + 1; // Convert to 1-indexed
+    const range = thread.range ?? new vscode.Range(0, 0, 0, 0);
 
     // Create the comment for display
     const newComment = new AnnotationComment(
@@ -187,13 +236,40 @@ export class AnnotationCommentController implements vscode.Disposable {
     // Call the save handler
     if (this.onSave) {
       try {
-        await this.onSave(uri.fsPath, line, text, author);
+        await this.onSave(uri.fsPath, range, text, author);
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to save annotation: ${error}`);
       }
     }
   }
 
+  private async handleReply(
+    thread: vscode.CommentThread,
+    annotationId: string,
+    text: string
+  ): Promise<void> {
+    const author = this.defaultAuthorName;
+    const replyComment = new AnnotationComment(
+      text,
+      vscode.CommentMode.Preview,
+      { name: author },
+      thread,
+      'canDelete,canEdit'
+    );
+    replyComment.replyId = randomUUID();
+
+    thread.comments = [...thread.comments, replyComment];
+    this.expandOnNextRender.add(annotationId);
+
+    if (this.onReply) {
+      try {
+        await this.onReply(annotationId, replyComment.replyId, text, author);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save reply: ${error}`);
+      }
+    }
+  }
+
   private handleEditAnnotation(comment: AnnotationComment): void {
     if (!comment.parent) {
       return;
@@ -201,6 +277,8 @@ export class AnnotationCommentController implements vscode.Disposable {
 
     comment.parent.comments = comment.parent.comments.map(c => {
       if ((c as AnnotationComment).id === comment.id) {
+        // Edit the text as written rather than its rendering
+        c.body = (c as AnnotationComment).text;
         c.mode = vscode.CommentMode.Editing;
       }
       return c;
@@ -219,6 +297,7 @@ export class AnnotationCommentController implements vscode.Disposable {
     comment.parent.comments = comment.parent.comments.map(c => {
       if ((c as AnnotationComment).id === comment.id) {
         (c as AnnotationComment).savedBody = c.body;
+        (c as AnnotationComment).text = newText;
         c.mode = vscode.CommentMode.Preview;
       }
       return c;
@@ -226,6 +305,17 @@ export class AnnotationCommentController implements vscode.Disposable {
 
     // Call the edit handler with the annotation ID stored in thread data
     const annotationId = getThreadMetadata(comment.parent).annotationId;
+    if (comment.replyId) {
+      if (this.onEditReply && annotationId) {
+        try {
+          await this.onEditReply(annotationId, comment.replyId, newText);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to update reply: ${error}`);
+        }
+      }
+      return;
+    }
+
     if (this.onEdit && annotationId) {
       try {
         await this.onEdit(annotationId, newText);
@@ -259,8 +349,20 @@ export class AnnotationCommentController implements vscode.Disposable {
       c => (c as AnnotationComment).id !== comment.id
     );
 
-    // If no comments left, dispose the thread
-    if (thread.comments.length === 0) {
+    if (comment.replyId) {
+      const annotationId = getThreadMetadata(thread).annotationId;
+      if (this.onDeleteReply && annotationId) {
+        try {
+          await this.onDeleteReply(annotationId, comment.replyId);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to delete reply: ${error}`);
+        }
+      }
+      return;
+    }
+
+    // Deleting the annotation itself removes its replies too
+    if (thread.comments.every(c => (c as AnnotationComment).replyId)) {
       const annotationId = getThreadMetadata(thread).annotationId;
       if (this.onDelete && annotationId) {
         try {
@@ -293,7 +395,9 @@ export class AnnotationCommentController implements vscode.Disposable {
     annotation: Annotation
   ): vscode.CommentThread {
     const line = annotation.line - 1; // Convert to 0-indexed
-    const range = new vscode.Range(line, 0, line, 0);
+    const range = isRangeAnnotation(annotation)
+      ? new vscode.Range(line, annotation.column, (annotation.endLine as number) - 1, annotation.endColumn ?? 0)
+      : new vscode.Range(line, 0, line, 0);
 
     const thread = this.commentController.createCommentThread(uri, range, []);
 
@@ -302,17 +406,51 @@ export class AnnotationCommentController implements vscode.Disposable {
     metadata.annotationId = annotation.id;
     metadata.authorName = annotation.author;
 
+    const source = this.getSource(annotation);
+    const readOnly = source?.readOnly === true;
     const comment = new AnnotationComment(
-      annotation.text,
+      this.renderText(annotation.text, annotation),
       vscode.CommentMode.Preview,
       { name: annotation.author },
       thread,
-      'canDelete,canEdit'
+      readOnly ? undefined : 'canDelete,canEdit'
     );
+    comment.text = annotation.text;
+    const lastStatusChange = annotation.statusHistory?.[annotation.statusHistory.length - 1];
+    if (lastStatusChange) {
+      comment.label = `${getStatusLabel(lastStatusChange.status)} by ${lastStatusChange.author}, ` +
+        new Date(lastStatusChange.timestamp).toLocaleString();
+    }
 
-    thread.comments = [comment];
-    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
-    thread.label = `Annotation by ${annotation.author}`;
+    const replies = (annotation.replies || []).map(reply => {
+      const replyComment = new AnnotationComment(
+        this.renderText(reply.text, annotation),
+        vscode.CommentMode.Preview,
+        { name: reply.author },
+        thread,
+        // Only the author of a reply may change it
+        reply.author === this.defaultAuthorName && !readOnly ? 'canDelete,canEdit' : undefined
+      );
+      replyComment.text = reply.text;
+      replyComment.replyId = reply.id;
+      replyComment.label = new Date(reply.timestamp).toLocaleString();
+      return replyComment;
+    });
+
+    thread.comments = [comment, ...replies];
+    // Thread title actions offer "Share" or "Make Private", or nothing that
+    // changes the annotation, based on this
+    thread.contextValue = readOnly
+      ? 'annotation.readOnly'
+      : isPrivate(annotation) ? 'annotation.private' : 'annotation.shared';
+    thread.canReply = !readOnly;
+    thread.state = isClosed(annotation)
+      ? vscode.CommentThreadState.Resolved
+      : vscode.CommentThreadState.Unresolved;
+    thread.collapsibleState = this.expandOnNextRender.delete(annotation.id)
+      ? vscode.CommentThreadCollapsibleState.Expanded
+      : vscode.CommentThreadCollapsibleState.Collapsed;
+    thread.label = this.createThreadLabel(annotation, source);
 
     // Store thread reference
     this.threads.set(annotation.id, thread);
@@ -320,6 +458,59 @@ export class AnnotationCommentController implements vscode.Disposable {
     return thread;
   }
 
+  private createThreadLabel(annotation: Annotation, source: AnnotationRepository | undefined): string {
+    const parts = [`Annotation by ${annotation.author}`];
+    if (annotation.severity) {
+      parts.unshift(`${getSeverityIcon(annotation.severity)} ${annotation.severity.toUpperCase()}`);
+    }
+    if (annotation.category) {
+      parts.push(annotation.category);
+    }
+    if (annotation.tags && annotation.tags.length > 0) {
+      parts.push(annotation.tags.map(tag => `#${tag}`).join(' '));
+    }
+    if (isPrivate(annotation)) {
+      parts.unshift('🔒 Private');
+    }
+    if (this.isMentioned(annotation)) {
+      parts.unshift('🔔 Mentions you');
+    }
+    if (source) {
+      parts.push(source.readOnly ? `${source.name} (read-only)` : source.name);
+    }
+    return parts.join(' · ');
+  }
+
+  /**
+   * Get the ID of the annotation shown in a thread, if it has been saved
+   */
+  getAnnotationIdForThread(thread: vscode.CommentThread): string | undefined {
+    return getThreadMetadata(thread).annotationId;
+  }
+
+  /**
+   * Expand an annotation's thread now, or when it is next created
+   */
+  expandThread(annotationId: string): void {
+    this.expandOnNextRender.add(annotationId);
+    const thread = this.threads.get(annotationId);
+    if (thread) {
+      thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+    }
+  }
+
+  /**
+   * Put the root comment of an annotation's thread into edit mode
+   */
+  startEditing(annotationId: string): void {
+    const thread = this.threads.get(annotationId);
+    const root = thread?.comments.find(c => !(c as AnnotationComment).replyId);
+    if (thread && root) {
+      thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+      this.handleEditAnnotation(root as AnnotationComment);
+    }
+  }
+
   /**
    * Remove a thread by annotation ID
    */
@@ -360,6 +551,28 @@ export class AnnotationCommentController implements vscode.Disposable {
     this.threads.clear();
   }
 
+  /**
+   * Label threads with the repository their annotation came from; threads of
+   * read-only repositories can't be edited or replied to
+   */
+  setSourceResolver(getSource: (annotation: Annotation) => AnnotationRepository | undefined): void {
+    this.getSource = getSource;
+  }
+
+  /**
+   * Render the text of annotations and replies, e.g. as Markdown
+   */
+  setTextRenderer(render: (text: string, annotation: Annotation) => string | vscode.MarkdownString): void {
+    this.renderText = render;
+  }
+
+  /**
+   * Highlight threads whose annotation mentions the current user
+   */
+  setMentionChecker(isMentioned: (annotation: Annotation) => boolean): void {
+    this.isMentioned = isMentioned;
+  }
+
   /**
    * Set author name for new threads (called before creating)
    */
@@ -370,8 +583,7 @@ export class AnnotationCommentController implements vscode.Disposable {
   /**
    * Create an empty thread at a line to trigger input for a new annotation
    */
-  createEmptyThreadForInput(uri: vscode.Uri, line: number): vscode.CommentThread {
-    const range = new vscode.Range(line, 0, line, 0);
+  createEmptyThreadForInput(uri: vscode.Uri, range: vscode.Range): vscode.CommentThread {
     const thread = this.commentController.createCommentThread(uri, range, []);
 
     // Set author from stored default
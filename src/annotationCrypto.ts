@@ -0,0 +1,156 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+import { Annotation } from './types';
+import { shardFileName } from './annotationFormat';
+
+/** Marks an encrypted value: `enc:v1:<key ID>:<iv>:<auth tag>:<ciphertext>` */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * A new random key, base64 encoded
+ */
+export function generateKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * Decode a base64 key, rejecting anything that isn't an AES-256 key
+ */
+export function parseKey(encoded: string): Buffer {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption keys must be ${KEY_BYTES} bytes, base64 encoded`);
+  }
+  return key;
+}
+
+/**
+ * Short fingerprint stored with encrypted values to tell which key they need
+ */
+export function getKeyId(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').substring(0, 8);
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypts the text of annotations, their replies and anchors, and
+ * optionally file paths, with AES-256-GCM. IDs, authors, timestamps, statuses
+ * and the other fields merging relies on stay readable.
+ *
+ * The IV is derived from the key and the plaintext, so unchanged text always
+ * encrypts to the same value. Otherwise every save would rewrite every shard
+ * and merges would see edits nobody made. The cost is that equal texts have
+ * equal ciphertexts.
+ */
+export class AnnotationCipher {
+  private key: Buffer;
+  private keyId: string;
+  // Every key that can decrypt, including retired ones, by key ID
+  private keys: Map<string, Buffer> = new Map();
+
+  /**
+   * @param currentKey Base64 key used for encryption
+   * @param previousKeys Retired base64 keys, still used to decrypt
+   * @param encryptFilePaths Also encrypt file paths, naming shards by a keyed
+   * hash of the path
+   */
+  constructor(currentKey: string, previousKeys: string[], private encryptFilePaths: boolean) {
+    this.key = parseKey(currentKey);
+    this.keyId = getKeyId(this.key);
+    for (const encoded of [currentKey, ...previousKeys]) {
+      const key = parseKey(encoded);
+      this.keys.set(getKeyId(key), key);
+    }
+  }
+
+  getKeyId(): string {
+    return this.keyId;
+  }
+
+  encryptValue(value: string): string {
+    if (isEncrypted(value)) {
+      return value;
+    }
+    const iv = createHmac('sha256', this.key).update(value).digest().subarray(0, IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+    return ENCRYPTED_PREFIX + [
+      this.keyId,
+      iv.toString('base64'),
+      cipher.getAuthTag().toString('base64'),
+      ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a value; values that aren't encrypted are returned unchanged
+   */
+  decryptValue(value: string): string {
+    if (!isEncrypted(value)) {
+      return value;
+    }
+    const [keyId, iv, tag, ciphertext] = value.substring(ENCRYPTED_PREFIX.length).split(':');
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Annotations are encrypted with a key that isn't configured (key ID ${keyId})`);
+    }
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf-8');
+  }
+
+  /**
+   * Copy of an annotation ready to be written to a repository
+   */
+  encryptAnnotation(annotation: Annotation): Annotation {
+    return this.mapFields(annotation, value => this.encryptValue(value), this.encryptFilePaths);
+  }
+
+  /**
+   * Copy of an annotation with every encrypted field decrypted
+   */
+  decryptAnnotation(annotation: Annotation): Annotation {
+    return this.mapFields(annotation, value => this.decryptValue(value), true);
+  }
+
+  /**
+   * The file path as written to a shard
+   */
+  encryptFilePath(filePath: string): string {
+    return this.encryptFilePaths ? this.encryptValue(filePath) : filePath;
+  }
+
+  /**
+   * Shard name for a source file; a keyed hash when paths are encrypted, so
+   * the name doesn't give the path away
+   */
+  shardFileName(filePath: string): string {
+    if (!this.encryptFilePaths) {
+      return shardFileName(filePath);
+    }
+    const normalized = filePath.replace(/\\/g, '/');
+    return `${createHmac('sha256', this.key).update(normalized).digest('hex').substring(0, 24)}.json`;
+  }
+
+  private mapFields(annotation: Annotation, map: (value: string) => string, filePath: boolean): Annotation {
+    const result: Annotation = { ...annotation, text: map(annotation.text) };
+    if (filePath) {
+      result.filePath = map(annotation.filePath);
+    }
+    if (annotation.anchor) {
+      result.anchor = {
+        text: map(annotation.anchor.text),
+        before: annotation.anchor.before.map(map),
+        after: annotation.anchor.after.map(map)
+      };
+    }
+    if (annotation.replies) {
+      result.replies = annotation.replies.map(reply => ({ ...reply, text: map(reply.text) }));
+    }
+    return result;
+  }
+}
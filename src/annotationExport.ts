@@ -0,0 +1,306 @@
+import * as path from 'path';
+import { Annotation, AnnotationSeverity, getStatus, getStatusLabel, isRangeAnnotation } from './types';
+
+export type ExportFormat = 'markdown' | 'html' | 'sarif';
+
+/** Longest snippet included per annotation */
+const MAX_SNIPPET_LINES = 20;
+
+/**
+ * An annotation with what a report needs beyond the annotation itself
+ */
+export interface ExportEntry {
+  annotation: Annotation;
+  /** Annotated source lines, empty if the file could not be read */
+  snippet: string[];
+  /** Link to the annotated location, relative to the report */
+  link: string;
+}
+
+export interface ReportInfo {
+  /** Project name shown in the report title */
+  project: string;
+  /** Summary of the active filters, empty if none */
+  filter: string;
+  generatedAt: number;
+  /** Extension version recorded as the SARIF tool version */
+  toolVersion: string;
+  /** Project folder, used as the SARIF source root */
+  projectPath: string;
+}
+
+/**
+ * Cut the annotated lines out of a file, falling back to the anchor text
+ * when the file is gone
+ */
+export function extractSnippet(lines: string[] | undefined, annotation: Annotation): string[] {
+  if (!lines) {
+    return annotation.anchor ? [annotation.anchor.text] : [];
+  }
+  const start = annotation.line - 1;
+  const end = Math.min(annotation.endLine ?? annotation.line, annotation.line + MAX_SNIPPET_LINES - 1);
+  return lines.slice(start, end);
+}
+
+/**
+ * Link to an annotated line from a report saved in `reportDir`, using the
+ * `#L<line>` fragment understood by most code hosts
+ */
+export function createLink(reportDir: string, projectPath: string, annotation: Annotation): string {
+  const relative = path.relative(reportDir, path.join(projectPath, annotation.filePath)).split(path.sep).join('/');
+  const fragment = isRangeAnnotation(annotation) && annotation.endLine !== annotation.line
+    ? `#L${annotation.line}-L${annotation.endLine}`
+    : `#L${annotation.line}`;
+  return `${encodeURI(relative)}${fragment}`;
+}
+
+export function renderReport(format: ExportFormat, entries: ExportEntry[], info: ReportInfo): string {
+  switch (format) {
+    case 'html':
+      return renderHtml(entries, info);
+    case 'sarif':
+      return renderSarif(entries, info);
+    default:
+      return renderMarkdown(entries, info);
+  }
+}
+
+function sortEntries(entries: ExportEntry[]): ExportEntry[] {
+  return [...entries].sort((a, b) =>
+    a.annotation.filePath.localeCompare(b.annotation.filePath) || a.annotation.line - b.annotation.line
+  );
+}
+
+function groupByFile(entries: ExportEntry[]): Map<string, ExportEntry[]> {
+  const groups = new Map<string, ExportEntry[]>();
+  for (const entry of sortEntries(entries)) {
+    const group = groups.get(entry.annotation.filePath) || [];
+    group.push(entry);
+    groups.set(entry.annotation.filePath, group);
+  }
+  return groups;
+}
+
+function describeLocation(annotation: Annotation): string {
+  return annotation.endLine !== undefined && annotation.endLine !== annotation.line
+    ? `${annotation.filePath}:${annotation.line}-${annotation.endLine}`
+    : `${annotation.filePath}:${annotation.line}`;
+}
+
+/**
+ * Severity, status, category and tags as short labels
+ */
+function describeClassification(annotation: Annotation): string[] {
+  return [
+    ...(annotation.severity ? [annotation.severity.toUpperCase()] : []),
+    getStatusLabel(getStatus(annotation)),
+    ...(annotation.category ? [annotation.category] : []),
+    ...(annotation.tags || []).map(tag => `#${tag}`)
+  ];
+}
+
+function describeReportHeader(entries: ExportEntry[], info: ReportInfo): string[] {
+  return [
+    `Generated ${new Date(info.generatedAt).toLocaleString()}`,
+    `${entries.length} annotation(s)`,
+    ...(info.filter ? [`Filtered by ${info.filter}`] : [])
+  ];
+}
+
+function renderMarkdown(entries: ExportEntry[], info: ReportInfo): string {
+  const out: string[] = [
+    `# Annotations: ${info.project}`,
+    '',
+    describeReportHeader(entries, info).join(' · '),
+    ''
+  ];
+
+  for (const [filePath, group] of groupByFile(entries)) {
+    out.push(`## ${filePath}`, '');
+    for (const { annotation, snippet, link } of group) {
+      out.push(`### [${describeLocation(annotation)}](${link})`, '');
+      out.push(`${describeClassification(annotation).map(label => `\`${label}\``).join(' ')}`, '');
+      out.push(`**${annotation.author}**, ${new Date(annotation.timestamp).toLocaleString()}`, '');
+      out.push(annotation.text, '');
+      if (snippet.length > 0) {
+        // The fence must be longer than any backtick run inside the snippet
+        const longestRun = Math.max(0, ...(snippet.join('\n').match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        out.push(`${fence}${path.extname(filePath).slice(1)}`, ...snippet, fence, '');
+      }
+      for (const reply of annotation.replies || []) {
+        out.push(`> **${reply.author}**, ${new Date(reply.timestamp).toLocaleString()}: ${reply.text.replace(/\n/g, '\n> ')}`, '');
+      }
+    }
+  }
+
+  return out.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2em auto; max-width: 60em; color: #24292f; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .3em; font-family: monospace; }
+.annotation { border: 1px solid #d0d7de; border-radius: 6px; padding: 0 1em; margin: 1em 0; }
+.meta { color: #57606a; font-size: .9em; }
+.label { display: inline-block; background: #eaeef2; border-radius: 1em; padding: 0 .6em; margin-right: .3em; font-size: .85em; }
+.critical, .high { background: #ffebe9; color: #cf222e; }
+.medium, .low { background: #fff8c5; color: #9a6700; }
+pre { background: #f6f8fa; padding: .8em; overflow-x: auto; }
+.text { white-space: pre-wrap; }
+.reply { border-left: 3px solid #d0d7de; padding-left: .8em; }
+`;
+
+function renderHtml(entries: ExportEntry[], info: ReportInfo): string {
+  const out: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>Annotations: ${escapeHtml(info.project)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>Annotations: ${escapeHtml(info.project)}</h1>`,
+    `<p class="meta">${describeReportHeader(entries, info).map(escapeHtml).join(' &middot; ')}</p>`
+  ];
+
+  for (const [filePath, group] of groupByFile(entries)) {
+    out.push(`<h2>${escapeHtml(filePath)}</h2>`);
+    for (const { annotation, snippet, link } of group) {
+      const labels = describeClassification(annotation)
+        .map((label, i) => {
+          const severityClass = i === 0 && annotation.severity ? ` ${annotation.severity}` : '';
+          return `<span class="label${severityClass}">${escapeHtml(label)}</span>`;
+        })
+        .join('');
+      out.push(
+        '<div class="annotation">',
+        `<h3><a href="${escapeHtml(link)}">${escapeHtml(describeLocation(annotation))}</a></h3>`,
+        `<p>${labels}</p>`,
+        `<p class="meta">${escapeHtml(annotation.author)}, ${escapeHtml(new Date(annotation.timestamp).toLocaleString())}</p>`,
+        `<p class="text">${escapeHtml(annotation.text)}</p>`
+      );
+      if (snippet.length > 0) {
+        out.push(`<pre><code>${escapeHtml(snippet.join('\n'))}</code></pre>`);
+      }
+      for (const reply of annotation.replies || []) {
+        out.push(
+          '<div class="reply">',
+          `<p class="meta">${escapeHtml(reply.author)}, ${escapeHtml(new Date(reply.timestamp).toLocaleString())}</p>`,
+          `<p class="text">${escapeHtml(reply.text)}</p>`,
+          '</div>'
+        );
+      }
+      out.push('</div>');
+    }
+  }
+
+  out.push('</body>', '</html>', '');
+  return out.join('\n');
+}
+
+/**
+ * SARIF result levels for annotation severities
+ */
+const SARIF_LEVELS: Record<AnnotationSeverity, string> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note'
+};
+
+/** Base ID that SARIF artifact locations are relative to */
+const SOURCE_ROOT_ID = 'SRCROOT';
+
+/** SARIF rule used for annotations without a category */
+const DEFAULT_RULE_ID = 'annotation';
+
+function renderSarif(entries: ExportEntry[], info: ReportInfo): string {
+  const sorted = sortEntries(entries);
+  const ruleIds = [...new Set(sorted.map(e => e.annotation.category || DEFAULT_RULE_ID))].sort();
+
+  const results = sorted.map(({ annotation, snippet }) => {
+    const ruleId = annotation.category || DEFAULT_RULE_ID;
+    const status = getStatus(annotation);
+    return {
+      ruleId,
+      ruleIndex: ruleIds.indexOf(ruleId),
+      level: annotation.severity ? SARIF_LEVELS[annotation.severity] : 'note',
+      message: { text: annotation.text },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: encodeURI(annotation.filePath.split(path.sep).join('/')), uriBaseId: SOURCE_ROOT_ID },
+          region: {
+            startLine: annotation.line,
+            startColumn: annotation.column + 1,
+            ...(annotation.endLine !== undefined ? { endLine: annotation.endLine } : {}),
+            ...(annotation.endColumn !== undefined ? { endColumn: annotation.endColumn + 1 } : {}),
+            ...(snippet.length > 0 ? { snippet: { text: snippet.join('\n') } } : {})
+          }
+        }
+      }],
+      // Won't-fix annotations were reviewed and accepted as they are
+      ...(status === 'wontFix' ? { suppressions: [{ kind: 'external', status: 'accepted' }] } : {}),
+      properties: {
+        annotationId: annotation.id,
+        author: annotation.author,
+        timestamp: new Date(annotation.timestamp).toISOString(),
+        status,
+        ...(annotation.severity ? { severity: annotation.severity } : {}),
+        ...(annotation.tags && annotation.tags.length > 0 ? { tags: annotation.tags } : {}),
+        ...(annotation.replies && annotation.replies.length > 0
+          ? { replies: annotation.replies.map(r => ({ author: r.author, text: r.text, timestamp: new Date(r.timestamp).toISOString() })) }
+          : {})
+      }
+    };
+  });
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'Code Annotate',
+          version: info.toolVersion,
+          rules: ruleIds.map(id => ({
+            id,
+            shortDescription: { text: id === DEFAULT_RULE_ID ? 'Code annotation' : id }
+          }))
+        }
+      },
+      originalUriBaseIds: {
+        [SOURCE_ROOT_ID]: { uri: pathToFileUri(info.projectPath) }
+      },
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: new Date(info.generatedAt).toISOString()
+      }],
+      results
+    }]
+  };
+
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+/**
+ * Directory file URI with a trailing slash, as SARIF requires for base IDs
+ */
+function pathToFileUri(dir: string): string {
+  let normalized = dir.split(path.sep).join('/');
+  if (!normalized.startsWith('/')) {
+    // Windows drive paths
+    normalized = `/${normalized}`;
+  }
+  return `file://${encodeURI(normalized)}${normalized.endsWith('/') ? '' : '/'}`;
+}
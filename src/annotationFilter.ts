@@ -0,0 +1,153 @@
+import { Annotation, AnnotationSeverity } from './types';
+
+/**
+ * Criteria for the annotations shown in the editor and the Annotations view.
+ * Empty or missing criteria match everything.
+ */
+export interface AnnotationFilter {
+  /** Show annotations with at least one of these tags */
+  tags?: string[];
+  /** Show annotations with one of these severities */
+  severities?: AnnotationSeverity[];
+  /** Show annotations written by one of these authors */
+  authors?: string[];
+  /** Show annotations last changed at or after this time (ms since epoch) */
+  since?: number;
+  /** Show annotations last changed at or before this time (ms since epoch) */
+  until?: number;
+  /** Show annotations on files matching this glob, relative to the project */
+  fileGlob?: string;
+}
+
+/**
+ * Convert a glob such as `src/**` or `*.{js,ts}` to a regular expression.
+ * `**` matches any number of directories, `*` and `?` stay within one.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` may also match no directory at all
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      pattern += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      pattern += ')';
+    } else if (char === ',' && inGroup) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Check a project-relative path against a glob. Globs without a slash match
+ * the file name in any directory, like `.gitignore` patterns.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  const target = glob.includes('/') ? normalized : normalized.slice(normalized.lastIndexOf('/') + 1);
+  return globToRegExp(glob).test(target);
+}
+
+export function matchesFilter(annotation: Annotation, filter: AnnotationFilter): boolean {
+  if (filter.tags && filter.tags.length > 0) {
+    const tags = annotation.tags || [];
+    if (!filter.tags.some(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (filter.severities && filter.severities.length > 0) {
+    if (!annotation.severity || !filter.severities.includes(annotation.severity)) {
+      return false;
+    }
+  }
+
+  if (filter.authors && filter.authors.length > 0 && !filter.authors.includes(annotation.author)) {
+    return false;
+  }
+
+  if (filter.since !== undefined && annotation.timestamp < filter.since) {
+    return false;
+  }
+  if (filter.until !== undefined && annotation.timestamp > filter.until) {
+    return false;
+  }
+
+  if (filter.fileGlob && !matchesGlob(annotation.filePath, filter.fileGlob)) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isFilterActive(filter: AnnotationFilter): boolean {
+  return (filter.tags?.length ?? 0) > 0 ||
+    (filter.severities?.length ?? 0) > 0 ||
+    (filter.authors?.length ?? 0) > 0 ||
+    filter.since !== undefined ||
+    filter.until !== undefined ||
+    !!filter.fileGlob;
+}
+
+/**
+ * Short human-readable summary, e.g. "tags: crypto · severity: high, critical"
+ */
+export function describeFilter(filter: AnnotationFilter): string {
+  const parts: string[] = [];
+  if (filter.tags && filter.tags.length > 0) {
+    parts.push(`tags: ${filter.tags.join(', ')}`);
+  }
+  if (filter.severities && filter.severities.length > 0) {
+    parts.push(`severity: ${filter.severities.join(', ')}`);
+  }
+  if (filter.authors && filter.authors.length > 0) {
+    parts.push(`author: ${filter.authors.join(', ')}`);
+  }
+  if (filter.since !== undefined || filter.until !== undefined) {
+    const since = filter.since !== undefined ? formatDate(filter.since) : '';
+    const until = filter.until !== undefined ? formatDate(filter.until) : '';
+    parts.push(`date: ${since}..${until}`);
+  }
+  if (filter.fileGlob) {
+    parts.push(`files: ${filter.fileGlob}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Format a timestamp as a local YYYY-MM-DD date
+ */
+export function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD date as local time; `endOfDay` gives the last millisecond
+ * of that day. Returns undefined if the input is not a valid date.
+ */
+export function parseDate(input: string, endOfDay = false): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input.trim());
+  if (!match) {
+    return undefined;
+  }
+  const date = endOfDay
+    ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59, 59, 999)
+    : new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date.getTime() : undefined;
+}
@@ -0,0 +1,59 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { AnnotationData } from './types';
+
+/** Single `annotations.json` per project */
+export const FORMAT_VERSION_1 = '1.0';
+/** One shard per annotated source file plus a `project.json` manifest */
+export const FORMAT_VERSION_2 = '2.0';
+/** Layout used for projects that don't have any annotations yet */
+export const CURRENT_FORMAT_VERSION = FORMAT_VERSION_2;
+
+const SUPPORTED_VERSIONS = [FORMAT_VERSION_1, FORMAT_VERSION_2];
+
+export const LEGACY_ANNOTATION_FILE = 'annotations.json';
+export const PROJECT_MANIFEST_FILE = 'project.json';
+export const SHARD_DIRECTORY = 'files';
+
+export interface ProjectManifest {
+  version: string;
+}
+
+/**
+ * Parse an annotation file, rejecting layouts this version doesn't understand
+ */
+export function parseAnnotationData(content: string, source: string): AnnotationData {
+  const data = JSON.parse(content) as AnnotationData;
+  checkVersion(data.version, source);
+  if (!Array.isArray(data.annotations)) {
+    throw new Error(`${source} has no annotations list`);
+  }
+  return data;
+}
+
+export function parseProjectManifest(content: string, source: string): ProjectManifest {
+  const manifest = JSON.parse(content) as ProjectManifest;
+  checkVersion(manifest.version, source);
+  return manifest;
+}
+
+function checkVersion(version: string | undefined, source: string): void {
+  if (!version || !SUPPORTED_VERSIONS.includes(version)) {
+    throw new Error(`${source} uses unsupported annotation format version ${version ?? '(none)'}; please update the extension`);
+  }
+}
+
+export function serializeData(data: AnnotationData | ProjectManifest): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Stable, readable shard file name for a source file path
+ */
+export function shardFileName(filePath: string): string {
+  // Hash the POSIX form so every platform maps a file to the same shard
+  const normalized = filePath.replace(/\\/g, '/');
+  const hash = createHash('sha256').update(normalized).digest('hex').substring(0, 12);
+  const readableName = path.posix.basename(normalized).replace(/[^a-zA-Z0-9-_.]/g, '_');
+  return `${readableName}_${hash}.json`;
+}
@@ -0,0 +1,78 @@
+import { Annotation, isArchived } from './types';
+import { MIN_ANCHOR_CONFIDENCE, locateAnchor } from './anchor';
+
+/**
+ * Why an annotation no longer points at its code
+ */
+export type OrphanReason = 'missingFile' | 'lineOutOfRange' | 'anchorMismatch';
+
+export const ORPHAN_REASONS: OrphanReason[] = ['missingFile', 'lineOutOfRange', 'anchorMismatch'];
+
+export interface OrphanedAnnotation {
+  annotation: Annotation;
+  reason: OrphanReason;
+  /** 1-indexed line the annotation most likely belongs at now, if its file exists */
+  suggestedLine?: number;
+}
+
+export function describeOrphanReason(reason: OrphanReason): string {
+  switch (reason) {
+    case 'missingFile':
+      return 'File no longer exists';
+    case 'lineOutOfRange':
+      return 'Line is past the end of the file';
+    case 'anchorMismatch':
+      return 'Code no longer matches';
+  }
+}
+
+/**
+ * Check an annotation against the current lines of its file, undefined if
+ * the file no longer exists. Annotations whose anchor still matches somewhere
+ * are fine: they are moved there when the file is opened.
+ */
+export function checkAnnotation(annotation: Annotation, lines: string[] | undefined): OrphanedAnnotation | undefined {
+  if (!lines) {
+    return { annotation, reason: 'missingFile' };
+  }
+
+  const outOfRange = annotation.line > lines.length || (annotation.endLine ?? 0) > lines.length;
+  if (!annotation.anchor) {
+    return outOfRange
+      ? { annotation, reason: 'lineOutOfRange', suggestedLine: lines.length }
+      : undefined;
+  }
+
+  const match = locateAnchor(lines, annotation.anchor, annotation.line);
+  if (match.confidence >= MIN_ANCHOR_CONFIDENCE) {
+    return undefined;
+  }
+  return {
+    annotation,
+    reason: outOfRange ? 'lineOutOfRange' : 'anchorMismatch',
+    suggestedLine: match.confidence > 0 ? match.line : Math.min(annotation.line, lines.length)
+  };
+}
+
+/**
+ * Check every annotation of a project that isn't archived, reading each
+ * annotated file once. `readLines` returns undefined for files that no
+ * longer exist.
+ */
+export async function findOrphanedAnnotations(
+  annotations: Annotation[],
+  readLines: (filePath: string) => Promise<string[] | undefined>
+): Promise<OrphanedAnnotation[]> {
+  const fileLines = new Map<string, string[] | undefined>();
+  const orphans: OrphanedAnnotation[] = [];
+  for (const annotation of annotations.filter(a => !isArchived(a))) {
+    if (!fileLines.has(annotation.filePath)) {
+      fileLines.set(annotation.filePath, await readLines(annotation.filePath));
+    }
+    const orphan = checkAnnotation(annotation, fileLines.get(annotation.filePath));
+    if (orphan) {
+      orphans.push(orphan);
+    }
+  }
+  return orphans;
+}
@@ -0,0 +1,150 @@
+import * as path from 'path';
+import { Annotation } from './types';
+import { CommitInfo, GitService } from './gitService';
+
+/** How many commits of a project are searched for past versions */
+const HISTORY_COMMIT_LIMIT = 500;
+
+/**
+ * An annotation as it was after a commit; `annotation` is undefined if the
+ * commit deleted it
+ */
+export interface AnnotationVersion {
+  commit: string;
+  author: string;
+  date: number;
+  message: string;
+  annotation: Annotation | undefined;
+  /**
+   * Set if the annotation couldn't be decrypted, e.g. because its key is no
+   * longer known; `annotation` is then as committed
+   */
+  unreadable?: boolean;
+}
+
+/**
+ * Annotation files changed by a commit, with their content after it;
+ * undefined for files the commit removed
+ */
+export interface CommitSnapshot {
+  commit: Omit<CommitInfo, 'files'>;
+  files: Map<string, Annotation[] | undefined>;
+  /** IDs of annotations in `files` that couldn't be decrypted */
+  unreadable?: Set<string>;
+}
+
+/**
+ * Replay commits, oldest first, into the versions of every annotation they
+ * touched. An annotation counts as deleted when the file that last held it
+ * changes and no file changed by the same commit holds it any more.
+ */
+export function buildHistory(snapshots: CommitSnapshot[]): Map<string, AnnotationVersion[]> {
+  const history = new Map<string, AnnotationVersion[]>();
+  const locations = new Map<string, string>();
+
+  for (const { commit, files, unreadable } of snapshots) {
+    const seen = new Set<string>();
+    for (const [file, annotations] of files) {
+      for (const annotation of annotations || []) {
+        seen.add(annotation.id);
+        locations.set(annotation.id, file);
+        addVersion(history, commit, annotation.id, annotation, unreadable?.has(annotation.id) === true);
+      }
+    }
+
+    for (const [id, file] of locations) {
+      if (files.has(file) && !seen.has(id)) {
+        locations.delete(id);
+        addVersion(history, commit, id, undefined, false);
+      }
+    }
+  }
+
+  return history;
+}
+
+/**
+ * Record a version unless it is the same as the previous one, e.g. when a
+ * commit only changed other annotations in the same file
+ */
+function addVersion(
+  history: Map<string, AnnotationVersion[]>,
+  commit: Omit<CommitInfo, 'files'>,
+  id: string,
+  annotation: Annotation | undefined,
+  unreadable: boolean
+): void {
+  const versions = history.get(id) || [];
+  const previous = versions[versions.length - 1];
+  if (previous && JSON.stringify(previous.annotation) === JSON.stringify(annotation) &&
+    (previous.unreadable === true) === unreadable) {
+    return;
+  }
+  versions.push({
+    commit: commit.hash,
+    author: commit.author,
+    date: commit.date,
+    message: commit.message,
+    annotation,
+    ...(unreadable ? { unreadable } : {})
+  });
+  history.set(id, versions);
+}
+
+/**
+ * Most recent version of each annotation whose last recorded change is a
+ * deletion, newest deletion first. Annotations that can't be decrypted can't
+ * be restored and are left out.
+ */
+export function findDeletedAnnotations(
+  history: Map<string, AnnotationVersion[]>
+): { annotation: Annotation; deletedIn: AnnotationVersion }[] {
+  const deleted: { annotation: Annotation; deletedIn: AnnotationVersion }[] = [];
+  for (const versions of history.values()) {
+    const last = versions[versions.length - 1];
+    const before = versions[versions.length - 2];
+    if (!last.annotation && before?.annotation && !before.unreadable) {
+      deleted.push({ annotation: before.annotation, deletedIn: last });
+    }
+  }
+  return deleted.sort((a, b) => b.deletedIn.date - a.deletedIn.date);
+}
+
+/**
+ * Read the history of a project's annotations from the annotation repository.
+ * `reveal` decrypts annotations as they were committed; versions it fails
+ * on, e.g. because they were encrypted with an unknown key, are marked
+ * unreadable.
+ */
+export async function loadProjectHistory(
+  gitService: GitService,
+  projectDir: string,
+  reveal: (annotation: Annotation) => Annotation = annotation => annotation
+): Promise<Map<string, AnnotationVersion[]>> {
+  // Git always reports paths with forward slashes
+  const relativeDir = projectDir.split(path.sep).join('/');
+  const commits = await gitService.getCommitsTouching(relativeDir, HISTORY_COMMIT_LIMIT);
+
+  const snapshots: CommitSnapshot[] = [];
+  for (const { files, ...commit } of commits) {
+    const contents = new Map<string, Annotation[] | undefined>();
+    const unreadable = new Set<string>();
+    const tryReveal = (annotation: Annotation) => {
+      try {
+        return reveal(annotation);
+      } catch {
+        unreadable.add(annotation.id);
+        return annotation;
+      }
+    };
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const data = await gitService.readJsonAt(commit.hash, file);
+      if (data === undefined || Array.isArray(data.annotations)) {
+        contents.set(file, data?.annotations.map(tryReveal));
+      }
+    }
+    snapshots.push({ commit, files: contents, unreadable });
+  }
+
+  return buildHistory(snapshots);
+}
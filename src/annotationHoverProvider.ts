@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { Annotation, isRangeAnnotation } from './types';
+
+/**
+ * Shows annotation text rendered as Markdown when hovering the lines it is
+ * about. CodeLens tooltips can only show plain text.
+ */
+export class AnnotationHoverProvider implements vscode.HoverProvider {
+  private annotations: Map<string, Annotation[]> = new Map();
+  private enabled: boolean = true;
+  private render: (annotation: Annotation) => vscode.MarkdownString = annotation =>
+    new vscode.MarkdownString().appendText(annotation.text);
+
+  /**
+   * Update the annotations shown for a file, keyed by absolute path
+   */
+  setAnnotationsForFile(filePath: string, annotations: Annotation[]): void {
+    this.annotations.set(filePath, annotations);
+  }
+
+  /**
+   * Enable or disable the provider
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Render the hover of an annotation, e.g. with links between annotations
+   */
+  setRenderer(render: (annotation: Annotation) => vscode.MarkdownString): void {
+    this.render = render;
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const line = position.line + 1;
+    const annotations = (this.annotations.get(document.uri.fsPath) || []).filter(annotation => {
+      const endLine = isRangeAnnotation(annotation) ? annotation.endLine as number : annotation.line;
+      return annotation.line <= line && line <= endLine;
+    });
+    if (annotations.length === 0) {
+      return undefined;
+    }
+
+    return new vscode.Hover(annotations.map(annotation => this.render(annotation)), document.lineAt(position.line).range);
+  }
+}
@@ -0,0 +1,392 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { randomUUID } from 'crypto';
+import { Annotation, AnnotationSeverity, AnnotationStatus, SEVERITIES, STATUSES, toAnnotationPath } from './types';
+
+/**
+ * `sarif`: static analysis results, including this extension's own exports.
+ * `weaudit`: `.vscode/<user>.weaudit` files of the weAudit extension.
+ * `codeAnnotation`: the `.vscode` notes file of the Code Annotation extension.
+ */
+export type ImportFormat = 'sarif' | 'weaudit' | 'codeAnnotation';
+
+/**
+ * An entry read from another tool, before it becomes an annotation
+ */
+export interface ImportedEntry {
+  /** Location as found in the source: relative, absolute or a file URI */
+  path: string;
+  /** 1-indexed */
+  line: number;
+  /** 0-indexed */
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  text: string;
+  author?: string;
+  timestamp?: number;
+  severity?: AnnotationSeverity;
+  category?: string;
+  tags?: string[];
+  status?: AnnotationStatus;
+}
+
+export interface ImportOptions {
+  projectPath: string;
+  /** Portable project identity stored in each annotation */
+  project: string;
+  /** Author for entries that don't record one */
+  defaultAuthor: string;
+  /** Timestamp for entries that don't record one */
+  now: number;
+}
+
+export interface ImportResult {
+  annotations: Annotation[];
+  /** Entries pointing outside the project */
+  outsideProject: number;
+  /** Entries that already exist, in the project or earlier in the import */
+  duplicates: number;
+  /**
+   * Entries whose location can't be read, e.g. because of a malformed escape
+   * or a line before the start of the file
+   */
+  invalidLocation: number;
+}
+
+/**
+ * Guess the format of a file from its name and content
+ */
+export function detectImportFormat(fileName: string, data: unknown): ImportFormat | undefined {
+  const extension = path.extname(fileName).toLowerCase();
+  if (extension === '.sarif' || hasArray(data, 'runs')) {
+    return 'sarif';
+  }
+  if (extension === '.weaudit' || hasArray(data, 'treeEntries')) {
+    return 'weaudit';
+  }
+  if (hasArray(data, 'notes')) {
+    return 'codeAnnotation';
+  }
+  return undefined;
+}
+
+export function parseImportFile(format: ImportFormat, data: unknown): ImportedEntry[] {
+  switch (format) {
+    case 'sarif':
+      return parseSarif(data);
+    case 'weaudit':
+      return parseWeAudit(data);
+    default:
+      return parseCodeAnnotation(data);
+  }
+}
+
+/**
+ * Turn imported entries into new annotations of a project, dropping entries
+ * outside the project and duplicates of `existing` annotations
+ */
+export function createImportedAnnotations(
+  entries: ImportedEntry[],
+  existing: Annotation[],
+  options: ImportOptions
+): ImportResult {
+  const result: ImportResult = { annotations: [], outsideProject: 0, duplicates: 0, invalidLocation: 0 };
+  const known = [...existing];
+
+  for (const entry of entries) {
+    if (!hasValidLines(entry)) {
+      result.invalidLocation++;
+      continue;
+    }
+
+    let filePath: string | undefined;
+    try {
+      filePath = resolveImportPath(options.projectPath, entry.path);
+    } catch {
+      result.invalidLocation++;
+      continue;
+    }
+    if (filePath === undefined) {
+      result.outsideProject++;
+      continue;
+    }
+
+    const annotation: Annotation = {
+      id: randomUUID(),
+      filePath,
+      line: entry.line,
+      column: entry.column,
+      ...(entry.endLine !== undefined ? { endLine: entry.endLine, endColumn: entry.endColumn ?? 0 } : {}),
+      text: entry.text,
+      author: entry.author || options.defaultAuthor,
+      timestamp: entry.timestamp ?? options.now,
+      project: options.project,
+      ...(entry.severity ? { severity: entry.severity } : {}),
+      ...(entry.category ? { category: entry.category } : {}),
+      ...(entry.tags && entry.tags.length > 0 ? { tags: entry.tags } : {}),
+      ...(entry.status && entry.status !== 'open' ? { status: entry.status } : {})
+    };
+
+    if (known.some(other => isDuplicate(annotation, other))) {
+      result.duplicates++;
+      continue;
+    }
+    known.push(annotation);
+    result.annotations.push(annotation);
+  }
+
+  return result;
+}
+
+/**
+ * Lines and columns an editor can show: whole numbers from the first line,
+ * with the end of a range not before its start
+ */
+function hasValidLines(entry: ImportedEntry): boolean {
+  const isIndex = (value: number, min: number) => Number.isInteger(value) && value >= min;
+  return isIndex(entry.line, 1) &&
+    isIndex(entry.column, 0) &&
+    (entry.endLine === undefined || isIndex(entry.endLine, entry.line)) &&
+    (entry.endColumn === undefined || isIndex(entry.endColumn, 0));
+}
+
+/**
+ * Annotations are duplicates if they say the same thing about the same line
+ */
+export function isDuplicate(a: Annotation, b: Annotation): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  return toAnnotationPath(a.filePath) === toAnnotationPath(b.filePath) && a.line === b.line && normalize(a.text) === normalize(b.text);
+}
+
+/**
+ * Make an imported location relative to the project. Returns undefined for
+ * locations outside the project; throws for malformed escapes and file URIs.
+ */
+export function resolveImportPath(projectPath: string, location: string): string | undefined {
+  let absolute: string;
+  if (location.startsWith('file:')) {
+    absolute = fileURLToPath(location);
+  } else {
+    const decoded = /%[0-9A-Fa-f]{2}/.test(location) ? decodeURIComponent(location) : location;
+    absolute = path.resolve(projectPath, decoded);
+  }
+
+  const relative = path.relative(projectPath, absolute);
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return toAnnotationPath(relative);
+}
+
+function hasArray(data: unknown, key: string): boolean {
+  return Array.isArray(field(data, key));
+}
+
+/**
+ * Look up a nested field of parsed JSON, e.g. `field(run, 'tool', 'driver')`;
+ * undefined if any step along the way is missing
+ */
+function field(value: unknown, ...keys: (string | number)[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function asTimestamp(value: unknown): number | undefined {
+  const timestamp = typeof value === 'string' ? Date.parse(value) : asNumber(value);
+  return timestamp !== undefined && !Number.isNaN(timestamp) ? timestamp : undefined;
+}
+
+function asSeverity(value: unknown): AnnotationSeverity | undefined {
+  return SEVERITIES.find(s => s === value);
+}
+
+function asStatus(value: unknown): AnnotationStatus | undefined {
+  return STATUSES.find(s => s === value);
+}
+
+const SARIF_SEVERITIES: Record<string, AnnotationSeverity> = {
+  error: 'high',
+  warning: 'medium',
+  note: 'low',
+  none: 'info'
+};
+
+function parseSarif(data: unknown): ImportedEntry[] {
+  if (!hasArray(data, 'runs')) {
+    throw new Error('Not a SARIF log: missing runs');
+  }
+
+  const entries: ImportedEntry[] = [];
+  for (const run of asArray(field(data, 'runs'))) {
+    const toolName = asString(field(run, 'tool', 'driver', 'name'));
+    const rules = asArray(field(run, 'tool', 'driver', 'rules'));
+    const baseIds = field(run, 'originalUriBaseIds');
+    const runTimestamp = asTimestamp(field(run, 'invocations', 0, 'endTimeUtc'));
+
+    for (const result of asArray(field(run, 'results'))) {
+      const location = field(result, 'locations', 0, 'physicalLocation');
+      const uri = asString(field(location, 'artifactLocation', 'uri'));
+      const startLine = asNumber(field(location, 'region', 'startLine'));
+      if (!uri || startLine === undefined) {
+        continue;
+      }
+
+      const ruleId = asString(field(result, 'ruleId'));
+      const ruleIndex = asNumber(field(result, 'ruleIndex'));
+      const rule = ruleIndex !== undefined
+        ? rules[ruleIndex]
+        : rules.find(r => ruleId !== undefined && field(r, 'id') === ruleId);
+      const text = asString(field(result, 'message', 'text')) ?? asString(field(result, 'message', 'markdown')) ??
+        asString(field(rule, 'shortDescription', 'text')) ?? ruleId;
+      if (!text) {
+        continue;
+      }
+
+      const region = field(location, 'region');
+      const endLine = asNumber(field(region, 'endLine'));
+      const endColumn = asNumber(field(region, 'endColumn'));
+      const properties = field(result, 'properties');
+      const level = asString(field(result, 'level')) ?? asString(field(rule, 'defaultConfiguration', 'level')) ?? 'warning';
+      const suppressions = field(result, 'suppressions');
+      const suppressed = Array.isArray(suppressions) &&
+        suppressions.some(s => (field(s, 'status') ?? 'accepted') === 'accepted');
+      const tags = field(properties, 'tags');
+
+      entries.push({
+        path: resolveSarifUri(uri, asString(field(location, 'artifactLocation', 'uriBaseId')), baseIds),
+        line: startLine,
+        column: Math.max(0, (asNumber(field(region, 'startColumn')) ?? 1) - 1),
+        // A region without an end line but with an end column stays on its start line
+        ...(endLine !== undefined || endColumn !== undefined
+          ? { endLine: endLine ?? startLine, endColumn: Math.max(0, (endColumn ?? 1) - 1) }
+          : {}),
+        text,
+        author: asString(field(properties, 'author')) ?? toolName,
+        timestamp: asTimestamp(field(properties, 'timestamp')) ?? runTimestamp,
+        severity: asSeverity(field(properties, 'severity')) ?? SARIF_SEVERITIES[level],
+        // Annotations exported without a category use the generic `annotation` rule
+        category: ruleId !== 'annotation' ? ruleId : undefined,
+        tags: Array.isArray(tags) ? tags.filter((t): t is string => typeof t === 'string') : undefined,
+        status: asStatus(field(properties, 'status')) ?? (suppressed ? 'wontFix' : undefined)
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Resolve a SARIF artifact URI against its base ID, if the log defines it
+ */
+function resolveSarifUri(uri: string, baseId: string | undefined, baseIds: unknown): string {
+  const base = baseId ? asString(field(baseIds, baseId, 'uri')) : undefined;
+  if (!base || /^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    return uri;
+  }
+  return new URL(uri, base.endsWith('/') ? base : `${base}/`).toString();
+}
+
+const WEAUDIT_SEVERITIES: Record<string, AnnotationSeverity> = {
+  high: 'high',
+  medium: 'medium',
+  low: 'low',
+  informational: 'info'
+};
+
+function parseWeAudit(data: unknown): ImportedEntry[] {
+  if (!hasArray(data, 'treeEntries')) {
+    throw new Error('Not a weAudit file: missing treeEntries');
+  }
+
+  const entries: ImportedEntry[] = [];
+  const addEntries = (items: unknown[], status: AnnotationStatus | undefined) => {
+    for (const item of items) {
+      const details = field(item, 'details');
+      const title = asString(field(item, 'label'));
+      const isFinding = field(item, 'entryType') === 0;
+
+      for (const location of asArray(field(item, 'locations'))) {
+        const locationPath = asString(field(location, 'path'));
+        const startLine = asNumber(field(location, 'startLine'));
+        if (!locationPath || startLine === undefined) {
+          continue;
+        }
+
+        const text = [title, asString(field(details, 'description')), asString(field(location, 'description'))]
+          .filter((part): part is string => !!part)
+          .join('\n\n');
+        if (!text) {
+          continue;
+        }
+
+        // weAudit stores 0-indexed lines
+        const endLine = asNumber(field(location, 'endLine'));
+        entries.push({
+          path: locationPath,
+          line: startLine + 1,
+          column: 0,
+          ...(endLine !== undefined && endLine !== startLine ? { endLine: endLine + 1, endColumn: 0 } : {}),
+          text,
+          author: asString(field(item, 'author')),
+          severity: WEAUDIT_SEVERITIES[String(field(details, 'severity')).toLowerCase()],
+          category: asString(field(details, 'type')) ?? (isFinding ? 'finding' : 'note'),
+          status
+        });
+      }
+    }
+  };
+
+  addEntries(asArray(field(data, 'treeEntries')), undefined);
+  addEntries(asArray(field(data, 'resolvedEntries')), 'resolved');
+  return entries;
+}
+
+function parseCodeAnnotation(data: unknown): ImportedEntry[] {
+  if (!hasArray(data, 'notes')) {
+    throw new Error('Not a Code Annotation file: missing notes');
+  }
+
+  const entries: ImportedEntry[] = [];
+  for (const note of asArray(field(data, 'notes'))) {
+    const notePath = asString(field(note, 'fileName'));
+    const text = asString(field(note, 'text'));
+    // Positions are 0-indexed; older notes only have the line
+    const startLine = asNumber(field(note, 'positionStart', 'line')) ?? asNumber(field(note, 'fileLine'));
+    if (!notePath || !text || startLine === undefined) {
+      continue;
+    }
+
+    const endLine = asNumber(field(note, 'positionEnd', 'line'));
+    entries.push({
+      path: notePath,
+      line: startLine + 1,
+      column: asNumber(field(note, 'positionStart', 'character')) ?? 0,
+      ...(endLine !== undefined && endLine !== startLine
+        ? { endLine: endLine + 1, endColumn: asNumber(field(note, 'positionEnd', 'character')) ?? 0 }
+        : {}),
+      text,
+      author: asString(field(note, 'author')),
+      timestamp: asTimestamp(field(note, 'createdAt')),
+      status: field(note, 'status') === 'done' ? 'resolved' : undefined
+    });
+  }
+  return entries;
+}
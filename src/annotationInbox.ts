@@ -0,0 +1,152 @@
+import { Annotation, isArchived, isPrivate } from './types';
+
+/**
+ * Why an annotation is in the inbox; a mention of the user outranks the rest
+ */
+export type InboxReason = 'mentioned' | 'added' | 'replied' | 'edited';
+
+/**
+ * An annotation that changed in a sync and hasn't been read yet
+ */
+export interface InboxEntry {
+  annotationId: string;
+  projectPath: string;
+  reason: InboxReason;
+  /** Who made the change, if known */
+  author?: string;
+  /** When the change arrived */
+  received: number;
+}
+
+export interface InboxUser {
+  name: string;
+  email: string;
+}
+
+/** `@name` not preceded by a word character, so email addresses don't count */
+const MENTION_PATTERN = /(^|[^\w@])@([\w][\w.-]*[\w]|[\w])/g;
+
+// Fields that change as code moves, not because anyone edited the annotation
+const POSITION_FIELDS = ['filePath', 'line', 'column', 'endLine', 'endColumn', 'anchor'];
+
+/**
+ * Names mentioned in a text with `@name`, in order of appearance
+ */
+export function findMentions(text: string): string[] {
+  return [...text.matchAll(MENTION_PATTERN)].map(match => match[2]);
+}
+
+/**
+ * Whether a mention refers to a git user: their name with or without spaces,
+ * their first name, or the local part of their email address, ignoring case
+ */
+export function isMentionOf(mention: string, user: InboxUser): boolean {
+  const name = user.name.trim().toLowerCase();
+  const candidates = [
+    name.replace(/\s+/g, ''),
+    name.replace(/\s+/g, '.'),
+    name.split(/\s+/)[0],
+    user.email.split('@')[0].toLowerCase()
+  ].filter(candidate => candidate.length > 0);
+  return candidates.includes(mention.toLowerCase());
+}
+
+export function mentionsUser(text: string, user: InboxUser): boolean {
+  return findMentions(text).some(mention => isMentionOf(mention, user));
+}
+
+/**
+ * Whether an annotation or one of its replies mentions a user
+ */
+export function annotationMentionsUser(annotation: Annotation, user: InboxUser): boolean {
+  return mentionsUser(annotation.text, user) ||
+    (annotation.replies || []).some(reply => mentionsUser(reply.text, user));
+}
+
+/**
+ * Compare a project's annotations before and after a sync and list what
+ * teammates added or changed. The user's own new annotations and replies are
+ * left out; moves along with the code don't count as changes.
+ */
+export function diffForInbox(
+  before: Annotation[],
+  after: Annotation[],
+  user: InboxUser
+): Omit<InboxEntry, 'projectPath' | 'received'>[] {
+  const previous = new Map(before.map(annotation => [annotation.id, annotation]));
+  const entries: Omit<InboxEntry, 'projectPath' | 'received'>[] = [];
+
+  for (const annotation of after) {
+    if (isPrivate(annotation) || isArchived(annotation)) {
+      continue;
+    }
+
+    const old = previous.get(annotation.id);
+    if (!old) {
+      if (annotation.author !== user.name) {
+        entries.push({
+          annotationId: annotation.id,
+          reason: annotationMentionsUser(annotation, user) ? 'mentioned' : 'added',
+          author: annotation.author
+        });
+      }
+      continue;
+    }
+
+    const oldReplyIds = new Set((old.replies || []).map(reply => reply.id));
+    const newReplies = (annotation.replies || [])
+      .filter(reply => !oldReplyIds.has(reply.id) && reply.author !== user.name);
+    if (newReplies.length > 0) {
+      const mentioned = newReplies.some(reply => mentionsUser(reply.text, user));
+      entries.push({
+        annotationId: annotation.id,
+        reason: mentioned ? 'mentioned' : 'replied',
+        author: newReplies[newReplies.length - 1].author
+      });
+    } else if (isEdited(old, annotation)) {
+      const mentioned = mentionsUser(annotation.text, user) && !mentionsUser(old.text, user);
+      // Only status changes record who made them
+      const statusChanges = (annotation.statusHistory || []).slice((old.statusHistory || []).length);
+      entries.push({
+        annotationId: annotation.id,
+        reason: mentioned ? 'mentioned' : 'edited',
+        author: statusChanges[statusChanges.length - 1]?.author
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Whether anything but the position changed, or a reply that was already
+ * there; new replies are looked at separately
+ */
+function isEdited(before: Annotation, after: Annotation): boolean {
+  const strip = (annotation: Annotation) => {
+    const fields: Record<string, unknown> = { ...annotation };
+    POSITION_FIELDS.forEach(field => delete fields[field]);
+    delete fields.replies;
+    // Bumped by every change, including replies
+    delete fields.timestamp;
+    return JSON.stringify(Object.entries(fields).sort(([a], [b]) => a.localeCompare(b)));
+  };
+  const oldReplyIds = new Set((before.replies || []).map(reply => reply.id));
+  const keptReplies = (after.replies || []).filter(reply => oldReplyIds.has(reply.id));
+  return strip(before) !== strip(after) || JSON.stringify(before.replies || []) !== JSON.stringify(keptReplies);
+}
+
+/**
+ * Merge new entries into the unread ones, keeping one entry per annotation:
+ * the most recent, or the mention if either is one. Mentions come first,
+ * then the most recently received.
+ */
+export function mergeInboxEntries(unread: InboxEntry[], incoming: InboxEntry[]): InboxEntry[] {
+  const byId = new Map(unread.map(entry => [entry.annotationId, entry]));
+  for (const entry of incoming) {
+    const existing = byId.get(entry.annotationId);
+    byId.set(entry.annotationId, existing?.reason === 'mentioned' ? { ...entry, reason: 'mentioned' } : entry);
+  }
+  const rank = (entry: InboxEntry) => entry.reason === 'mentioned' ? 0 : 1;
+  return [...byId.values()].sort((a, b) => rank(a) - rank(b) || b.received - a.received);
+}
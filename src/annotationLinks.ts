@@ -0,0 +1,113 @@
+import * as path from 'path';
+
+/**
+ * Where a link in annotation text points: another annotation by ID, or a
+ * 1-indexed line of a file relative to the project
+ */
+export type LinkTarget =
+  | { annotationId: string }
+  | { filePath: string; line: number; endLine?: number };
+
+/** Path of the deep links handled by the extension's URI handler */
+export const ANNOTATION_URI_PATH = '/annotation';
+
+/**
+ * `[[reference]]` outside inline code. Inline code is matched first so that
+ * references in it are left alone.
+ */
+const REFERENCE_PATTERN = /(`+)[^`]*?\1|\[\[([^[\]\n]+)\]\]/g;
+
+/**
+ * Parse a reference: `path/to/file.ts:42`, `path/to/file.ts:42-50`, or
+ * anything else as an annotation ID
+ */
+export function parseLinkTarget(reference: string): LinkTarget {
+  const trimmed = reference.trim();
+  const location = /^(.+):(\d+)(?:-(\d+))?$/.exec(trimmed);
+  if (location) {
+    const line = Math.max(1, Number(location[2]));
+    const endLine = location[3] !== undefined ? Math.max(line, Number(location[3])) : undefined;
+    return endLine !== undefined
+      ? { filePath: location[1], line, endLine }
+      : { filePath: location[1], line };
+  }
+  return { annotationId: trimmed };
+}
+
+/**
+ * Targets of the `[[references]]` in a text, in order of appearance
+ */
+export function findLinkTargets(text: string): LinkTarget[] {
+  const targets: LinkTarget[] = [];
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    if (match[2] !== undefined) {
+      targets.push(parseLinkTarget(match[2]));
+    }
+  }
+  return targets;
+}
+
+/**
+ * Replace each `[[reference]]` in Markdown text with a Markdown link built by
+ * `toLink` from the reference's label and target
+ */
+export function renderLinks(text: string, toLink: (label: string, target: LinkTarget) => string): string {
+  return text.replace(REFERENCE_PATTERN, (match, _code, reference: string | undefined) =>
+    reference === undefined ? match : toLink(reference.trim(), parseLinkTarget(reference))
+  );
+}
+
+/**
+ * Absolute path of a linked file, given relative to its project with either
+ * separator. Undefined if it lies outside the project, e.g. through `..`
+ * segments or an absolute path, since links come from teammates and from
+ * outside VS Code.
+ */
+export function resolveLinkedFile(projectPath: string, filePath: string): string | undefined {
+  const absolute = path.resolve(projectPath, filePath.split('/').join(path.sep));
+  const relative = path.relative(projectPath, absolute);
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  return absolute;
+}
+
+/**
+ * Escape text for use as the label of a Markdown link
+ */
+export function escapeLinkLabel(label: string): string {
+  return label.replace(/[\\[\]*_`<>]/g, character => `\\${character}`);
+}
+
+/**
+ * Query of a deep link to an annotation. Besides the ID it carries the
+ * project and location, so that the file can still be opened when the
+ * annotation isn't loaded, e.g. before the next sync.
+ */
+export function createAnnotationUriQuery(annotationId: string, project: string, filePath: string, line: number): string {
+  const params = new URLSearchParams({
+    id: annotationId,
+    project,
+    file: filePath.split('\\').join('/'),
+    line: `${line}`
+  });
+  return params.toString();
+}
+
+export interface AnnotationUriParams {
+  annotationId?: string;
+  project?: string;
+  filePath?: string;
+  line?: number;
+}
+
+export function parseAnnotationUriQuery(query: string): AnnotationUriParams {
+  const params = new URLSearchParams(query);
+  const line = Number(params.get('line'));
+  return {
+    annotationId: params.get('id') || undefined,
+    project: params.get('project') || undefined,
+    filePath: params.get('file') || undefined,
+    line: Number.isInteger(line) && line > 0 ? line : undefined
+  };
+}
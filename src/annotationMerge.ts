@@ -0,0 +1,202 @@
+import { Annotation, AnnotationData, AnnotationReply } from './types';
+
+/**
+ * An annotation changed incompatibly on both sides of a merge. A missing
+ * side means the annotation was deleted there.
+ */
+export interface AnnotationConflict {
+  id: string;
+  file: string;
+  base?: Annotation;
+  ours?: Annotation;
+  theirs?: Annotation;
+}
+
+/**
+ * Chosen outcome for each conflict by annotation ID; undefined deletes it
+ */
+export type ConflictResolutions = Map<string, Annotation | undefined>;
+
+export type ConflictResolver = (conflicts: AnnotationConflict[]) => Promise<ConflictResolutions | undefined>;
+
+export interface MergeResult {
+  data: AnnotationData;
+  conflicts: AnnotationConflict[];
+}
+
+/**
+ * Three-way merge of an annotation file by annotation ID. Additions from both
+ * sides are kept, concurrent edits are merged field by field with the newer
+ * timestamp winning, and deletes win over unchanged annotations. Deletes of
+ * edited annotations and edits that can't be ordered are returned as conflicts
+ * and left out of the merged data.
+ */
+export function mergeAnnotationData(
+  file: string,
+  base: AnnotationData | undefined,
+  ours: AnnotationData | undefined,
+  theirs: AnnotationData | undefined
+): MergeResult {
+  const baseById = indexById(base?.annotations);
+  const oursById = indexById(ours?.annotations);
+  const theirsById = indexById(theirs?.annotations);
+
+  const annotations: Annotation[] = [];
+  const conflicts: AnnotationConflict[] = [];
+
+  for (const id of orderedIds(ours?.annotations, theirs?.annotations)) {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (!o || !t) {
+      const present = o || t;
+      if (!present) {
+        continue;
+      }
+      if (!b) {
+        // Added on one side only
+        annotations.push(present);
+      } else if (!sameValue(present, b)) {
+        // Deleted on one side, edited on the other
+        conflicts.push({ id, file, base: b, ours: o, theirs: t });
+      }
+      // Otherwise deleted on one side and unchanged on the other: delete wins
+      continue;
+    }
+
+    const merged = mergeAnnotation(b, o, t);
+    if (merged) {
+      annotations.push(merged);
+    } else {
+      conflicts.push({ id, file, base: b, ours: o, theirs: t });
+    }
+  }
+
+  // Keep any other top-level fields, preferring our side
+  const data: AnnotationData = {
+    ...(theirs || {}),
+    ...(ours || {}),
+    version: ours?.version || theirs?.version || base?.version || '1.0',
+    annotations
+  } as AnnotationData;
+
+  return { data, conflicts };
+}
+
+/**
+ * Add the chosen versions of conflicting annotations to merged data
+ */
+export function applyResolutions(
+  data: AnnotationData,
+  conflicts: AnnotationConflict[],
+  resolutions: ConflictResolutions
+): AnnotationData {
+  const resolved = conflicts
+    .map(c => resolutions.get(c.id))
+    .filter((a): a is Annotation => a !== undefined);
+  return { ...data, annotations: [...data.annotations, ...resolved] };
+}
+
+/**
+ * Merge two edited versions of an annotation field by field. Returns
+ * undefined if a field changed on both sides with equal timestamps.
+ */
+function mergeAnnotation(base: Annotation | undefined, ours: Annotation, theirs: Annotation): Annotation | undefined {
+  if (sameValue(ours, theirs)) {
+    return ours;
+  }
+
+  const newer = ours.timestamp === theirs.timestamp
+    ? undefined
+    : (ours.timestamp > theirs.timestamp ? ours : theirs);
+
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+  const baseFields = (base || {}) as unknown as Record<string, unknown>;
+  const ourFields = ours as unknown as Record<string, unknown>;
+  const theirFields = theirs as unknown as Record<string, unknown>;
+
+  for (const key of keys) {
+    if (key === 'replies') {
+      merged.replies = mergeReplies(base?.replies, ours.replies, theirs.replies);
+      continue;
+    }
+
+    const b = baseFields[key];
+    const o = ourFields[key];
+    const t = theirFields[key];
+
+    if (sameValue(o, t) || sameValue(t, b)) {
+      merged[key] = o;
+    } else if (sameValue(o, b)) {
+      merged[key] = t;
+    } else if (newer) {
+      // Last writer wins
+      merged[key] = (newer as unknown as Record<string, unknown>)[key];
+    } else {
+      return undefined;
+    }
+
+    if (merged[key] === undefined) {
+      delete merged[key];
+    }
+  }
+
+  return merged as unknown as Annotation;
+}
+
+/**
+ * Merge reply lists by ID: additions from both sides, newest edit wins,
+ * deletes win
+ */
+function mergeReplies(
+  base: AnnotationReply[] | undefined,
+  ours: AnnotationReply[] | undefined,
+  theirs: AnnotationReply[] | undefined
+): AnnotationReply[] | undefined {
+  if (!ours && !theirs) {
+    return undefined;
+  }
+
+  const baseIds = new Set((base || []).map(r => r.id));
+  const oursById = indexById(ours);
+  const theirsById = indexById(theirs);
+  const replies: AnnotationReply[] = [];
+
+  for (const id of orderedIds(ours, theirs)) {
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (o && t) {
+      replies.push(t.timestamp > o.timestamp ? t : o);
+    } else if (!baseIds.has(id)) {
+      replies.push((o || t) as AnnotationReply);
+    }
+  }
+
+  return replies;
+}
+
+function indexById<T extends { id: string }>(items: T[] | undefined): Map<string, T> {
+  return new Map((items || []).map(item => [item.id, item]));
+}
+
+/**
+ * IDs in our order, followed by IDs only present on their side
+ */
+function orderedIds(ours: { id: string }[] | undefined, theirs: { id: string }[] | undefined): string[] {
+  const ids = (ours || []).map(item => item.id);
+  const seen = new Set(ids);
+  for (const item of theirs || []) {
+    if (!seen.has(item.id)) {
+      ids.push(item.id);
+      seen.add(item.id);
+    }
+  }
+  return ids;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
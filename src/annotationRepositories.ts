@@ -0,0 +1,62 @@
+import * as path from 'path';
+import { GitService } from './gitService';
+
+/**
+ * An entry of the `vscode-annotate.additionalRepositories` setting
+ */
+export interface RepositoryConfig {
+  path: string;
+  /** Label shown next to annotations from this repository; defaults to the folder name */
+  name?: string;
+  /** Pull the repository but never write to it, e.g. an external auditor's */
+  readOnly?: boolean;
+}
+
+/**
+ * An annotation repository whose annotations are layered into the workspace
+ */
+export interface AnnotationRepository {
+  name: string;
+  git: GitService;
+  readOnly: boolean;
+}
+
+/**
+ * Default label of a repository: its folder name
+ */
+export function getRepositoryName(repoPath: string): string {
+  return path.basename(path.resolve(repoPath));
+}
+
+/**
+ * Validate the additional repositories layered over the primary one. Entries
+ * without a path and repositories listed twice are dropped, and names are
+ * made unique so that each annotation's source can be told apart.
+ */
+export function resolveRepositoryConfigs(primaryPath: string, configs: RepositoryConfig[]): Required<RepositoryConfig>[] {
+  const seenPaths = new Set([path.resolve(primaryPath)]);
+  const names = new Set([getRepositoryName(primaryPath)]);
+  const resolved: Required<RepositoryConfig>[] = [];
+
+  for (const config of configs) {
+    if (!config || typeof config.path !== 'string' || config.path.trim().length === 0) {
+      continue;
+    }
+    const repoPath = config.path.trim();
+    if (seenPaths.has(path.resolve(repoPath))) {
+      continue;
+    }
+    seenPaths.add(path.resolve(repoPath));
+
+    const baseName = config.name?.trim() || getRepositoryName(repoPath);
+    let name = baseName;
+    for (let i = 2; names.has(name); i++) {
+      name = `${baseName} (${i})`;
+    }
+    names.add(name);
+
+    resolved.push({ path: repoPath, name, readOnly: config.readOnly === true });
+  }
+
+  return resolved;
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { Annotation, truncateText } from './types';
+import { AnnotationStorage } from './annotationStorage';
+
+interface SearchItem extends vscode.QuickPickItem {
+  annotation: Annotation;
+  projectPath: string;
+}
+
+/**
+ * Check whether every whitespace-separated term of a query appears in an
+ * annotation's text, replies, author or file path (case-insensitive)
+ */
+export function matchesQuery(annotation: Annotation, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(t => t.length > 0);
+  if (terms.length === 0) {
+    return true;
+  }
+
+  const haystack = [
+    annotation.text,
+    annotation.author,
+    annotation.filePath,
+    ...(annotation.replies || []).flatMap(r => [r.text, r.author])
+  ].join('\n').toLowerCase();
+
+  return terms.every(term => haystack.includes(term));
+}
+
+/**
+ * Search annotations of the given projects from a QuickPick with live
+ * filtering. `onPick` is called with the chosen annotation; `onShowInView`
+ * with the query when the user asks to keep the results in the sidebar.
+ */
+export function searchAnnotations(
+  storage: AnnotationStorage,
+  projectPaths: string[],
+  onPick: (annotation: Annotation, projectPath: string) => Promise<void>,
+  onShowInView: (query: string) => void
+): void {
+  const allItems: SearchItem[] = [];
+  for (const projectPath of projectPaths) {
+    for (const annotation of storage.getAllAnnotations(projectPath)) {
+      allItems.push({
+        label: truncateText(annotation.text, 80),
+        description: annotation.author,
+        detail: `${annotation.filePath}:${annotation.line}`,
+        // Filtering is done by matchesQuery, which also searches beyond the first line
+        alwaysShow: true,
+        annotation,
+        projectPath
+      });
+    }
+  }
+  allItems.sort((a, b) => b.annotation.timestamp - a.annotation.timestamp);
+
+  const showInViewButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('list-flat'),
+    tooltip: 'Show results in Annotations view'
+  };
+
+  const quickPick = vscode.window.createQuickPick<SearchItem>();
+  quickPick.placeholder = 'Search annotation text, authors and file paths';
+  quickPick.matchOnDescription = true;
+  quickPick.matchOnDetail = true;
+  quickPick.buttons = [showInViewButton];
+  quickPick.items = allItems;
+
+  quickPick.onDidChangeValue(value => {
+    quickPick.items = allItems.filter(item => matchesQuery(item.annotation, value));
+  });
+
+  quickPick.onDidTriggerButton(button => {
+    if (button === showInViewButton) {
+      onShowInView(quickPick.value);
+      quickPick.hide();
+    }
+  });
+
+  quickPick.onDidAccept(async () => {
+    const selected = quickPick.selectedItems[0];
+    quickPick.hide();
+    if (selected) {
+      await onPick(selected.annotation, selected.projectPath);
+    }
+  });
+
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+}
@@ -1,84 +1,721 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { createHash } from 'crypto';
-import { Annotation, AnnotationData } from './types';
-import { GitService } from './gitService';
+import { Annotation, AnnotationData, AnnotationReply, AnnotationStatus, AnnotationVisibility, isArchived, isPrivate, toAnnotationPath } from './types';
+import { GitService, SyncError } from './gitService';
+import { AnnotationRepository, getRepositoryName } from './annotationRepositories';
+import { ConflictResolver } from './annotationMerge';
+import { AnnotationPosition } from './positionTracker';
+import { ProjectIdentity, resolveProjectIdentity, fallbackProjectIdentity, legacyProjectFolderName } from './projectIdentity';
+import { createAnchor, locateAnchor, splitLines, MIN_ANCHOR_CONFIDENCE } from './anchor';
+import {
+  CURRENT_FORMAT_VERSION,
+  FORMAT_VERSION_1,
+  FORMAT_VERSION_2,
+  LEGACY_ANNOTATION_FILE,
+  PROJECT_MANIFEST_FILE,
+  SHARD_DIRECTORY,
+  parseAnnotationData,
+  parseProjectManifest,
+  serializeData,
+  shardFileName
+} from './annotationFormat';
+import { AnnotationCipher, isEncrypted } from './annotationCrypto';
+import { FileRename, applyRenames } from './fileRenames';
+
+/**
+ * A project's annotations just before and just after a sync
+ */
+export interface SyncedProject {
+  projectPath: string;
+  before: Annotation[];
+  after: Annotation[];
+}
 
 export class AnnotationStorage {
+  private _onDidChangeAnnotations = new vscode.EventEmitter<void>();
+  public readonly onDidChangeAnnotations = this._onDidChangeAnnotations.event;
+  private _onDidSync = new vscode.EventEmitter<SyncedProject[]>();
+  /** Fired after a sync reloaded the projects, also when it partly failed */
+  public readonly onDidSync = this._onDidSync.event;
+
   private annotations: Map<string, Annotation[]> = new Map();
+  private projectIdentities: Map<string, ProjectIdentity> = new Map();
+  // Repository each shared annotation of a project belongs to, by annotation ID
+  private sources: Map<string, Map<string, AnnotationRepository>> = new Map();
+  // Format versions and the sets below are kept per layer: a project in one
+  // repository, or its private annotations (see layerKey)
+  private formatVersions: Map<string, string> = new Map();
+  // Last content written to or read from each annotation file, to skip
+  // unchanged writes and tell our own writes from changes made elsewhere
+  private shardContents: Map<string, string> = new Map();
+  // Layers that failed to load must not be overwritten by a save
+  private unreadableProjects: Set<string> = new Set();
+  // Layers whose saved changes haven't been committed yet
+  private uncommittedProjects: Set<string> = new Set();
   private gitService: GitService;
+  private primaryRepository: AnnotationRepository | undefined;
+  private additionalRepositories: AnnotationRepository[] = [];
+  private targetRepositoryName: string | undefined;
+  private cipher: AnnotationCipher | undefined;
+  private encryptionEnabled = false;
+  private reportedUnplacedIds: Set<string> = new Set();
 
-  constructor(gitService: GitService) {
+  /**
+   * @param privateStoragePath Folder for private annotations, outside the
+   * annotation repository
+   */
+  constructor(gitService: GitService, private privateStoragePath: string) {
     this.gitService = gitService;
   }
 
   async loadAnnotations(projectPath: string): Promise<void> {
-    const repoPath = this.gitService.getRepoPath();
-    if (!repoPath) {
+    const repositories = this.getRepositories();
+    if (repositories.length === 0) {
       return;
     }
 
-    const annotationFile = this.getAnnotationFilePath(projectPath, repoPath);
+    const identity = await resolveProjectIdentity(projectPath);
+    this.projectIdentities.set(projectPath, identity);
 
+    // An annotation made private here may still be in a teammate's copy
+    // that was merged in; the private version wins. Otherwise earlier
+    // repositories win over later ones.
+    const privateAnnotations = await this.readLayer(undefined, projectPath, () => this.readPrivateAnnotations(projectPath));
+    const seen = new Set(privateAnnotations.map(a => a.id));
+    const sharedAnnotations: Annotation[] = [];
+    const sources = new Map<string, AnnotationRepository>();
+    for (const repository of repositories) {
+      const layer = this.layerKey(repository, projectPath);
+      const projectDir = this.getProjectDir(projectPath, repository);
+      for (const annotation of await this.readLayer(repository, projectPath, () => this.readProjectAnnotations(layer, projectDir))) {
+        if (!seen.has(annotation.id)) {
+          seen.add(annotation.id);
+          sharedAnnotations.push(annotation);
+          sources.set(annotation.id, repository);
+        }
+      }
+    }
+    this.annotations.set(projectPath, [...sharedAnnotations, ...privateAnnotations].map(a => this.upgradeAnnotation(a, identity)));
+    this.sources.set(projectPath, sources);
+
+    await this.migrateLegacyProjectFolder(projectPath, repositories[0]);
+    await this.relocateProjectAnnotations(projectPath);
+    this._onDidChangeAnnotations.fire();
+  }
+
+  /**
+   * Read one layer of a project. Layers that can't be read are reported and
+   * protected from being overwritten.
+   */
+  private async readLayer(
+    repository: AnnotationRepository | undefined,
+    projectPath: string,
+    read: () => Promise<Annotation[]>
+  ): Promise<Annotation[]> {
+    const layer = this.layerKey(repository, projectPath);
+    this.unreadableProjects.delete(layer);
     try {
-      const content = await fs.readFile(annotationFile, 'utf-8');
-      const data: AnnotationData = JSON.parse(content);
-      this.annotations.set(projectPath, data.annotations);
+      return await read();
     } catch (error) {
       // Only show warning for errors other than file not found (new projects won't have annotations yet)
       if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        vscode.window.showWarningMessage(`Failed to load annotations: ${error instanceof Error ? error.message : error}`);
+        this.unreadableProjects.add(layer);
+        const source = repository ? ` from ${repository.name}` : '';
+        vscode.window.showWarningMessage(`Failed to load annotations${source}: ${error instanceof Error ? error.message : error}`);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Key of a project's layer in one repository, or of its private
+   * annotations when there is no repository
+   */
+  private layerKey(repository: AnnotationRepository | undefined, projectPath: string): string {
+    return repository ? `${repository.name}\0${projectPath}` : projectPath;
+  }
+
+  /**
+   * Read a project in whichever layout it was written, remembering the layout
+   * so that saving keeps it
+   */
+  private async readProjectAnnotations(layer: string, projectDir: string): Promise<Annotation[]> {
+    // Files may have changed underneath us, e.g. after a sync
+    for (const cachedPath of [...this.shardContents.keys()]) {
+      if (cachedPath.startsWith(projectDir + path.sep)) {
+        this.shardContents.delete(cachedPath);
+      }
+    }
+
+    let manifestContent: string | undefined;
+    try {
+      manifestContent = await fs.readFile(path.join(projectDir, PROJECT_MANIFEST_FILE), 'utf-8');
+    } catch {
+      // No manifest: either a version 1.0 project or a new one
+    }
+
+    if (manifestContent === undefined) {
+      try {
+        const legacyPath = path.join(projectDir, LEGACY_ANNOTATION_FILE);
+        const content = await fs.readFile(legacyPath, 'utf-8');
+        const data = parseAnnotationData(content, LEGACY_ANNOTATION_FILE);
+        this.formatVersions.set(layer, data.version);
+        this.shardContents.set(legacyPath, content);
+        return this.decryptAnnotations(data.annotations);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          this.formatVersions.set(layer, CURRENT_FORMAT_VERSION);
+        }
+        throw error;
+      }
+    }
+
+    const manifest = parseProjectManifest(manifestContent, PROJECT_MANIFEST_FILE);
+    this.formatVersions.set(layer, manifest.version);
+    this.shardContents.set(path.join(projectDir, PROJECT_MANIFEST_FILE), manifestContent);
+
+    const shardDir = path.join(projectDir, SHARD_DIRECTORY);
+    let shardFiles: string[] = [];
+    try {
+      shardFiles = (await fs.readdir(shardDir)).filter(f => f.endsWith('.json'));
+    } catch {
+      // A project whose annotations were all deleted has no shards
+    }
+
+    const annotations: Annotation[] = [];
+    for (const shardFile of shardFiles) {
+      const shardPath = path.join(shardDir, shardFile);
+      const content = await fs.readFile(shardPath, 'utf-8');
+      const data = parseAnnotationData(content, shardFile);
+      this.shardContents.set(shardPath, content);
+      annotations.push(...data.annotations);
+    }
+    return this.decryptAnnotations(annotations);
+  }
+
+  /**
+   * Decrypt annotations with the cipher when reading and, if encryption is
+   * enabled, encrypt them with it when writing to a repository. Private
+   * annotations never leave this machine and aren't encrypted.
+   */
+  setEncryption(cipher: AnnotationCipher | undefined, enabled: boolean): void {
+    this.cipher = cipher;
+    this.encryptionEnabled = enabled;
+  }
+
+  /**
+   * Cipher to encrypt what is written to repositories with, if encryption is enabled
+   */
+  private getWriteCipher(): AnnotationCipher | undefined {
+    return this.encryptionEnabled ? this.cipher : undefined;
+  }
+
+  private decryptAnnotations(annotations: Annotation[]): Annotation[] {
+    if (this.cipher) {
+      const cipher = this.cipher;
+      return annotations.map(a => cipher.decryptAnnotation(a));
+    }
+    if (annotations.some(a => isEncrypted(a.text) || isEncrypted(a.filePath))) {
+      throw new Error('Annotations are encrypted, but no encryption key is set');
+    }
+    return annotations;
+  }
+
+  /**
+   * Decrypt an annotation read straight from a repository, e.g. from its history
+   */
+  revealAnnotation(annotation: Annotation): Annotation {
+    return this.decryptAnnotations([annotation])[0];
+  }
+
+  private encryptAnnotations(annotations: Annotation[]): Annotation[] {
+    const cipher = this.getWriteCipher();
+    return cipher ? annotations.map(a => cipher.encryptAnnotation(a)) : annotations;
+  }
+
+  /**
+   * Replace the machine-specific `projectPath` of annotations written before
+   * projects were identified by remote URL, and the backslashes of file paths
+   * saved on Windows
+   */
+  private upgradeAnnotation(annotation: Annotation & { projectPath?: string }, identity: ProjectIdentity): Annotation {
+    delete annotation.projectPath;
+    annotation.project = annotation.project || identity.key;
+    annotation.filePath = toAnnotationPath(annotation.filePath);
+    return annotation;
+  }
+
+  /**
+   * Merge annotations stored under the old path-hashed folder into the folder
+   * of the project's current identity, then remove the old folder.
+   */
+  private async migrateLegacyProjectFolder(projectPath: string, repository: AnnotationRepository): Promise<void> {
+    const repoPath = repository.git.getRepoPath() as string;
+    const identity = this.getProjectIdentity(projectPath);
+    const legacyDir = path.join(repoPath, legacyProjectFolderName(projectPath));
+    if (path.join(repoPath, identity.id) === legacyDir) {
+      return;
+    }
+
+    let legacyData: AnnotationData;
+    try {
+      const content = await fs.readFile(path.join(legacyDir, LEGACY_ANNOTATION_FILE), 'utf-8');
+      legacyData = parseAnnotationData(content, LEGACY_ANNOTATION_FILE);
+    } catch {
+      // Nothing to migrate
+      return;
+    }
+
+    try {
+      const projectAnnotations = this.annotations.get(projectPath) || [];
+      const knownIds = new Set(projectAnnotations.map(a => a.id));
+      for (const annotation of legacyData.annotations) {
+        if (!knownIds.has(annotation.id)) {
+          projectAnnotations.push(this.upgradeAnnotation(annotation, identity));
+          this.getSources(projectPath).set(annotation.id, repository);
+        }
+      }
+      this.annotations.set(projectPath, projectAnnotations);
+
+      await this.saveAnnotations(projectPath);
+      await fs.rm(legacyDir, { recursive: true, force: true });
+      this.uncommittedProjects.add(this.layerKey(repository, projectPath));
+      await this.commitChanges(projectPath, `Migrate annotations of ${path.basename(projectPath)} to ${identity.id}`);
+    } catch (error) {
+      vscode.window.showWarningMessage(`Failed to migrate annotations to the new project folder: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Re-locate every annotation in a project against the source files on disk.
+   * Moves stay in memory: the checkout here may differ from teammates', so
+   * loading must not rewrite the shared repository.
+   */
+  private async relocateProjectAnnotations(projectPath: string): Promise<void> {
+    const projectAnnotations = this.annotations.get(projectPath) || [];
+    const filePaths = new Set(projectAnnotations.map(a => a.filePath));
+    const unplaced: Annotation[] = [];
+
+    for (const filePath of filePaths) {
+      let content: string;
+      try {
+        content = await fs.readFile(path.join(projectPath, filePath), 'utf-8');
+      } catch {
+        // Deleted or moved source files can't be used for re-location
+        continue;
       }
-      this.annotations.set(projectPath, []);
+      unplaced.push(...this.relocateAnnotations(projectPath, filePath, splitLines(content)));
     }
+
+    this.reportUnplacedAnnotations(unplaced);
+  }
+
+  /**
+   * Move annotations in a file to wherever their anchors now match. Annotations
+   * that can't be placed confidently keep their stored line and are returned.
+   */
+  relocateAnnotations(projectPath: string, filePath: string, lines: string[]): Annotation[] {
+    const unplaced: Annotation[] = [];
+    let moved = false;
+
+    for (const annotation of this.getAnnotationsForFile(filePath, projectPath)) {
+      if (isArchived(annotation)) {
+        continue;
+      }
+      if (!annotation.anchor) {
+        // Backfill anchors for annotations created before anchoring existed
+        if (annotation.line <= lines.length) {
+          annotation.anchor = createAnchor(lines, annotation.line);
+        }
+        continue;
+      }
+
+      const match = locateAnchor(lines, annotation.anchor, annotation.line);
+      if (match.confidence >= MIN_ANCHOR_CONFIDENCE) {
+        if (annotation.line !== match.line) {
+          // Range annotations keep their length
+          if (annotation.endLine !== undefined) {
+            annotation.endLine += match.line - annotation.line;
+          }
+          annotation.line = match.line;
+          moved = true;
+        }
+        this.reportedUnplacedIds.delete(annotation.id);
+      } else {
+        unplaced.push(annotation);
+      }
+    }
+
+    if (moved) {
+      this._onDidChangeAnnotations.fire();
+    }
+    return unplaced;
+  }
+
+  /**
+   * Warn about annotations that could not be re-located, once per annotation
+   */
+  reportUnplacedAnnotations(unplaced: Annotation[]): void {
+    const newlyUnplaced = unplaced.filter(a => !this.reportedUnplacedIds.has(a.id));
+    if (newlyUnplaced.length === 0) {
+      return;
+    }
+
+    for (const annotation of newlyUnplaced) {
+      this.reportedUnplacedIds.add(annotation.id);
+    }
+
+    const files = [...new Set(newlyUnplaced.map(a => a.filePath))].join(', ');
+    vscode.window.showWarningMessage(
+      `${newlyUnplaced.length} annotation(s) could not be re-located confidently and may be on the wrong line: ${files}`
+    );
+  }
+
+  /**
+   * Read the private annotations of a project from the local store
+   */
+  private async readPrivateAnnotations(projectPath: string): Promise<Annotation[]> {
+    const privatePath = this.getPrivateStorageFile(projectPath);
+    let content: string;
+    try {
+      content = await fs.readFile(privatePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // No private annotations yet
+        return [];
+      }
+      throw error;
+    }
+    return parseAnnotationData(content, privatePath).annotations
+      .map(a => ({ ...a, visibility: 'private' as const }));
+  }
+
+  private getPrivateStorageFile(projectPath: string): string {
+    return path.join(this.privateStoragePath, `${this.getProjectIdentity(projectPath).id}.json`);
   }
 
   async saveAnnotations(projectPath: string): Promise<void> {
-    const repoPath = this.gitService.getRepoPath();
-    if (!repoPath) {
+    const repositories = this.getRepositories();
+    if (repositories.length === 0) {
       throw new Error('Annotation repository not configured');
     }
 
-    const annotationFile = this.getAnnotationFilePath(projectPath, repoPath);
+    const writableLayers = [undefined, ...repositories.filter(r => !r.readOnly)];
+    if (writableLayers.some(r => this.unreadableProjects.has(this.layerKey(r, projectPath)))) {
+      throw new Error('Annotations of this project could not be loaded, so they will not be overwritten');
+    }
+
     const annotations = this.annotations.get(projectPath) || [];
+    const sources = this.getSources(projectPath);
+    const target = this.getTargetRepository() ?? repositories[0];
+    for (const annotation of annotations) {
+      if (isPrivate(annotation)) {
+        sources.delete(annotation.id);
+      } else if (!sources.has(annotation.id)) {
+        // New and newly shared annotations go to the target repository
+        sources.set(annotation.id, target);
+      }
+    }
 
-    const data: AnnotationData = {
-      version: '1.0',
-      annotations
-    };
+    await this.writePrivateAnnotations(projectPath, annotations.filter(isPrivate));
+    if (this.encryptionEnabled && !this.cipher) {
+      throw new Error('Annotation encryption is enabled, but no encryption key is set');
+    }
+    for (const repository of repositories) {
+      if (repository.readOnly) {
+        continue;
+      }
+      const changed = await this.writeLayer(
+        repository,
+        projectPath,
+        annotations.filter(a => !isPrivate(a) && sources.get(a.id) === repository)
+      );
+      if (changed) {
+        this.uncommittedProjects.add(this.layerKey(repository, projectPath));
+      }
+    }
+
+    this._onDidChangeAnnotations.fire();
+  }
+
+  /**
+   * Write a project's annotations in one repository, keeping the layout the
+   * project has there. Returns whether any file in the repository changed.
+   */
+  private async writeLayer(repository: AnnotationRepository, projectPath: string, annotations: Annotation[]): Promise<boolean> {
+    const projectDir = this.getProjectDir(projectPath, repository);
+    if (annotations.length === 0 && !(await fs.stat(projectDir).catch(() => undefined))) {
+      // Don't create empty project folders in repositories the project never used
+      return false;
+    }
+
+    const version = this.getFormatVersion(this.layerKey(repository, projectPath));
+    await fs.mkdir(projectDir, { recursive: true });
+
+    if (version === FORMAT_VERSION_1) {
+      const data: AnnotationData = {
+        version,
+        annotations: this.encryptAnnotations(annotations)
+      };
+      const legacyPath = path.join(projectDir, LEGACY_ANNOTATION_FILE);
+      const content = serializeData(data);
+      const changed = this.shardContents.get(legacyPath) !== content;
+      await fs.writeFile(legacyPath, content, 'utf-8');
+      this.shardContents.set(legacyPath, content);
+      return changed;
+    }
+    return this.writeShards(projectDir, annotations, version);
+  }
+
+  /**
+   * Write the private annotations of a project to the local store, removing
+   * the file once there are none
+   */
+  private async writePrivateAnnotations(projectPath: string, annotations: Annotation[]): Promise<void> {
+    const privatePath = this.getPrivateStorageFile(projectPath);
+    if (annotations.length === 0) {
+      await fs.rm(privatePath, { force: true });
+      return;
+    }
+    await fs.mkdir(this.privateStoragePath, { recursive: true });
+    await fs.writeFile(privatePath, serializeData({ version: CURRENT_FORMAT_VERSION, annotations }), 'utf-8');
+  }
+
+  /**
+   * Write one shard per annotated source file. Shards whose content hasn't
+   * changed are left alone and shards of files without annotations are removed.
+   * Returns whether any file in the repository changed.
+   */
+  private async writeShards(projectDir: string, annotations: Annotation[], version: string): Promise<boolean> {
+    let changed = false;
+    const manifestPath = path.join(projectDir, PROJECT_MANIFEST_FILE);
+    const manifestContent = serializeData({ version });
+    if (this.shardContents.get(manifestPath) !== manifestContent) {
+      await fs.writeFile(manifestPath, manifestContent, 'utf-8');
+      this.shardContents.set(manifestPath, manifestContent);
+      changed = true;
+    }
+
+    // Grouped like shardFileName names them, so that the same file saved on
+    // different platforms shares one shard
+    const byFile = new Map<string, Annotation[]>();
+    for (const annotation of annotations) {
+      const filePath = toAnnotationPath(annotation.filePath);
+      const fileAnnotations = byFile.get(filePath) || [];
+      fileAnnotations.push(annotation);
+      byFile.set(filePath, fileAnnotations);
+    }
+
+    const shardDir = path.join(projectDir, SHARD_DIRECTORY);
+    await fs.mkdir(shardDir, { recursive: true });
+
+    const cipher = this.getWriteCipher();
+    const expectedShards = new Set<string>();
+    for (const [filePath, fileAnnotations] of byFile) {
+      const shardPath = path.join(shardDir, cipher ? cipher.shardFileName(filePath) : shardFileName(filePath));
+      expectedShards.add(shardPath);
+
+      const content = serializeData({
+        version,
+        filePath: cipher ? cipher.encryptFilePath(filePath) : filePath,
+        annotations: this.encryptAnnotations(fileAnnotations)
+      });
+      if (this.shardContents.get(shardPath) !== content) {
+        await fs.writeFile(shardPath, content, 'utf-8');
+        this.shardContents.set(shardPath, content);
+        changed = true;
+      }
+    }
+
+    for (const shardFile of await fs.readdir(shardDir)) {
+      const shardPath = path.join(shardDir, shardFile);
+      if (shardFile.endsWith('.json') && !expectedShards.has(shardPath)) {
+        await fs.rm(shardPath, { force: true });
+        this.shardContents.delete(shardPath);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Convert a version 1.0 project to the sharded version 2.0 layout in place.
+   * Returns false if the project already uses the sharded layout.
+   */
+  async migrateToShardedFormat(projectPath: string): Promise<boolean> {
+    const repositories = this.getRepositories();
+    if (repositories.length === 0) {
+      throw new Error('Annotation repository not configured');
+    }
+
+    const legacyLayers = repositories.filter(r =>
+      !r.readOnly && this.getFormatVersion(this.layerKey(r, projectPath)) === FORMAT_VERSION_1
+    );
+    if (legacyLayers.length === 0) {
+      return false;
+    }
+
+    for (const repository of legacyLayers) {
+      this.formatVersions.set(this.layerKey(repository, projectPath), FORMAT_VERSION_2);
+    }
+    await this.saveAnnotations(projectPath);
+    for (const repository of legacyLayers) {
+      const legacyPath = path.join(this.getProjectDir(projectPath, repository), LEGACY_ANNOTATION_FILE);
+      await fs.rm(legacyPath, { force: true });
+      this.shardContents.delete(legacyPath);
+      this.uncommittedProjects.add(this.layerKey(repository, projectPath));
+    }
+    return true;
+  }
+
+  private getFormatVersion(layer: string): string {
+    return this.formatVersions.get(layer) || CURRENT_FORMAT_VERSION;
+  }
+
+  private getProjectDir(projectPath: string, repository: AnnotationRepository): string {
+    return path.join(repository.git.getRepoPath() as string, this.getProjectIdentity(projectPath).id);
+  }
+
+  private getSources(projectPath: string): Map<string, AnnotationRepository> {
+    let sources = this.sources.get(projectPath);
+    if (!sources) {
+      sources = new Map();
+      this.sources.set(projectPath, sources);
+    }
+    return sources;
+  }
+
+  /**
+   * The primary repository followed by the additional ones, in order of
+   * precedence; empty until the primary repository is configured
+   */
+  getRepositories(): AnnotationRepository[] {
+    const repoPath = this.gitService.getRepoPath();
+    if (!repoPath) {
+      return [];
+    }
+    if (this.primaryRepository?.name !== getRepositoryName(repoPath)) {
+      this.primaryRepository = { name: getRepositoryName(repoPath), git: this.gitService, readOnly: false };
+    }
+    return [this.primaryRepository, ...this.additionalRepositories];
+  }
 
-    const dir = path.dirname(annotationFile);
-    await fs.mkdir(dir, { recursive: true });
-    await fs.writeFile(annotationFile, JSON.stringify(data, null, 2), 'utf-8');
+  /**
+   * Layer further repositories over the primary one; reload projects
+   * afterwards to pick up their annotations
+   */
+  setAdditionalRepositories(repositories: AnnotationRepository[]): void {
+    this.additionalRepositories = repositories;
   }
 
-  private getAnnotationFilePath(projectPath: string, repoPath: string): string {
-    const projectHash = this.hashProjectPath(projectPath);
-    const projectDir = path.join(repoPath, projectHash);
-    return path.join(projectDir, 'annotations.json');
+  /**
+   * Writable repository new annotations are saved to: the one chosen with
+   * setTargetRepository, or the primary repository
+   */
+  getTargetRepository(): AnnotationRepository | undefined {
+    const writable = this.getRepositories().filter(r => !r.readOnly);
+    return writable.find(r => r.name === this.targetRepositoryName) ?? writable[0];
   }
 
-  private hashProjectPath(projectPath: string): string {
-    const normalized = path.normalize(projectPath);
-    // Use SHA-256 hash truncated to 16 chars for a unique, readable folder name
-    const hash = createHash('sha256').update(normalized).digest('hex').substring(0, 16);
-    // Prepend a readable portion of the project name for easier identification
-    const projectName = path.basename(normalized).replace(/[^a-zA-Z0-9-_]/g, '_');
-    return `${projectName}_${hash}`;
+  setTargetRepository(name: string | undefined): void {
+    this.targetRepositoryName = name;
   }
 
-  async addAnnotation(annotation: Annotation): Promise<void> {
-    const projectAnnotations = this.annotations.get(annotation.projectPath) || [];
+  /**
+   * Repository a shared annotation was loaded from or saved to; undefined for
+   * private and unsaved annotations
+   */
+  getRepositoryForAnnotation(id: string, projectPath: string): AnnotationRepository | undefined {
+    return this.sources.get(projectPath)?.get(id);
+  }
+
+  isReadOnly(id: string, projectPath: string): boolean {
+    return this.getRepositoryForAnnotation(id, projectPath)?.readOnly === true;
+  }
+
+  /**
+   * Look up an annotation that is about to be changed, refusing annotations
+   * from read-only repositories
+   */
+  private getWritableAnnotation(id: string, projectPath: string): Annotation | undefined {
+    const repository = this.getRepositoryForAnnotation(id, projectPath);
+    if (repository?.readOnly) {
+      throw new Error(`Annotations from ${repository.name} are read-only`);
+    }
+    return this.getAnnotationById(id, projectPath);
+  }
+
+  /**
+   * Folder of a project inside the annotation repository, relative to it
+   */
+  getProjectRepoDir(projectPath: string): string {
+    return this.getProjectIdentity(projectPath).id;
+  }
+
+  /**
+   * Check whether an annotation file differs from what this window last read
+   * or wrote, i.e. it was changed by another process
+   */
+  async isExternalChange(filePath: string): Promise<boolean> {
+    const content = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+    return content !== this.shardContents.get(filePath);
+  }
+
+  /**
+   * Identity of a loaded project; falls back to the path hash before loading
+   */
+  getProjectIdentity(projectPath: string): ProjectIdentity {
+    return this.projectIdentities.get(projectPath) || fallbackProjectIdentity(projectPath);
+  }
+
+  async addAnnotation(annotation: Annotation, projectPath: string): Promise<void> {
+    const projectAnnotations = this.annotations.get(projectPath) || [];
     projectAnnotations.push(annotation);
-    this.annotations.set(annotation.projectPath, projectAnnotations);
+    this.annotations.set(projectPath, projectAnnotations);
+
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Add several annotations with a single save, e.g. when importing
+   */
+  async addAnnotations(annotations: Annotation[], projectPath: string): Promise<void> {
+    const projectAnnotations = this.annotations.get(projectPath) || [];
+    projectAnnotations.push(...annotations);
+    this.annotations.set(projectPath, projectAnnotations);
 
-    await this.saveAnnotations(annotation.projectPath);
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Bring back an earlier version of an annotation, replacing the current one
+   * or re-adding it if it was deleted. The restored version counts as the
+   * newest change so that syncing keeps it, and a private annotation stays
+   * private.
+   */
+  async restoreAnnotation(annotation: Annotation, projectPath: string): Promise<void> {
+    this.getWritableAnnotation(annotation.id, projectPath);
+    const projectAnnotations = this.annotations.get(projectPath) || [];
+    const restored = { ...annotation, timestamp: Date.now() };
+    const index = projectAnnotations.findIndex(a => a.id === annotation.id);
+    if (index >= 0) {
+      if (isPrivate(projectAnnotations[index])) {
+        restored.visibility = 'private';
+      }
+      projectAnnotations[index] = restored;
+    } else {
+      projectAnnotations.push(restored);
+    }
+    this.annotations.set(projectPath, projectAnnotations);
+
+    await this.saveAnnotations(projectPath);
   }
 
   getAnnotationsForFile(filePath: string, projectPath: string): Annotation[] {
     const projectAnnotations = this.annotations.get(projectPath) || [];
-    return projectAnnotations.filter(a => a.filePath === filePath);
+    const annotationPath = toAnnotationPath(filePath);
+    return projectAnnotations.filter(a => toAnnotationPath(a.filePath) === annotationPath);
   }
 
   getAllAnnotations(projectPath: string): Annotation[] {
@@ -86,6 +723,7 @@ export class AnnotationStorage {
   }
 
   async removeAnnotation(id: string, projectPath: string): Promise<void> {
+    this.getWritableAnnotation(id, projectPath);
     const projectAnnotations = this.annotations.get(projectPath) || [];
     const filtered = projectAnnotations.filter(a => a.id !== id);
     this.annotations.set(projectPath, filtered);
@@ -94,8 +732,7 @@ export class AnnotationStorage {
   }
 
   async updateAnnotation(id: string, projectPath: string, newText: string): Promise<void> {
-    const projectAnnotations = this.annotations.get(projectPath) || [];
-    const annotation = projectAnnotations.find(a => a.id === id);
+    const annotation = this.getWritableAnnotation(id, projectPath);
     if (annotation) {
       annotation.text = newText;
       annotation.timestamp = Date.now();
@@ -103,18 +740,304 @@ export class AnnotationStorage {
     }
   }
 
+  /**
+   * Move annotations to new 1-indexed lines and refresh their anchors from the
+   * saved document content. Returns the number of annotations that moved.
+   */
+  async updateAnnotationPositions(
+    projectPath: string,
+    positions: Map<string, AnnotationPosition>,
+    lines: string[]
+  ): Promise<number> {
+    const projectAnnotations = this.annotations.get(projectPath) || [];
+    let moved = 0;
+
+    for (const annotation of projectAnnotations) {
+      const position = positions.get(annotation.id);
+      if (position && (position.line !== annotation.line || position.endLine !== annotation.endLine)) {
+        annotation.line = position.line;
+        if (position.endLine !== undefined) {
+          annotation.endLine = position.endLine;
+        }
+        annotation.anchor = createAnchor(lines, position.line);
+        moved++;
+      }
+    }
+
+    if (moved > 0) {
+      await this.saveAnnotations(projectPath);
+    }
+    return moved;
+  }
+
+  /**
+   * Point annotations on renamed files, or on files in renamed folders, at
+   * the new paths. Annotations from read-only repositories keep their old
+   * paths. Returns the number of annotations that moved.
+   */
+  async renameFiles(projectPath: string, renames: FileRename[]): Promise<number> {
+    let moved = 0;
+    for (const annotation of this.annotations.get(projectPath) || []) {
+      const newPath = applyRenames(annotation.filePath, renames);
+      if (newPath !== undefined && newPath !== annotation.filePath && !this.isReadOnly(annotation.id, projectPath)) {
+        annotation.filePath = newPath;
+        moved++;
+      }
+    }
+
+    if (moved > 0) {
+      await this.saveAnnotations(projectPath);
+    }
+    return moved;
+  }
+
+  /**
+   * Move an annotation to a 1-indexed line, possibly in another file, and
+   * anchor it to that file's content
+   */
+  async moveAnnotation(id: string, projectPath: string, filePath: string, line: number, lines: string[]): Promise<void> {
+    const annotation = this.getWritableAnnotation(id, projectPath);
+    if (!annotation) {
+      return;
+    }
+
+    // Range annotations keep their length
+    if (annotation.endLine !== undefined) {
+      annotation.endLine = Math.min(annotation.endLine + line - annotation.line, lines.length);
+    }
+    annotation.filePath = filePath;
+    annotation.line = line;
+    annotation.anchor = createAnchor(lines, line);
+    this.reportedUnplacedIds.delete(id);
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Archive an annotation, or bring it back from the archive
+   */
+  async setArchived(id: string, projectPath: string, archived: boolean): Promise<void> {
+    const annotation = this.getWritableAnnotation(id, projectPath);
+    if (!annotation) {
+      return;
+    }
+
+    if (archived) {
+      annotation.archived = true;
+    } else {
+      delete annotation.archived;
+    }
+    annotation.timestamp = Date.now();
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Change the tags, severity or category of an annotation. Fields set to
+   * undefined are cleared.
+   */
+  async updateClassification(
+    id: string,
+    projectPath: string,
+    changes: Partial<Pick<Annotation, 'tags' | 'severity' | 'category'>>
+  ): Promise<void> {
+    const annotation = this.getWritableAnnotation(id, projectPath);
+    if (!annotation) {
+      return;
+    }
+
+    for (const key of Object.keys(changes) as (keyof typeof changes)[]) {
+      const value = changes[key];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+        delete annotation[key];
+      } else {
+        Object.assign(annotation, { [key]: value });
+      }
+    }
+    annotation.timestamp = Date.now();
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Make an annotation private or share it. Making it private removes it from
+   * the annotation repository, though earlier commits still contain it.
+   */
+  async setVisibility(id: string, projectPath: string, visibility: AnnotationVisibility): Promise<void> {
+    const annotation = this.getWritableAnnotation(id, projectPath);
+    if (!annotation) {
+      return;
+    }
+
+    if (visibility === 'private') {
+      annotation.visibility = 'private';
+    } else {
+      delete annotation.visibility;
+    }
+    annotation.timestamp = Date.now();
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Change the review status of an annotation, recording who changed it
+   */
+  async updateStatus(id: string, projectPath: string, status: AnnotationStatus, author: string): Promise<void> {
+    const annotation = this.getWritableAnnotation(id, projectPath);
+    if (!annotation) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    if (status === 'open') {
+      delete annotation.status;
+    } else {
+      annotation.status = status;
+    }
+    annotation.statusHistory = [...(annotation.statusHistory || []), { status, author, timestamp }];
+    annotation.timestamp = timestamp;
+    await this.saveAnnotations(projectPath);
+  }
+
+  /**
+   * Add a reply. Like any other change, it makes the annotation count as
+   * changed now.
+   */
+  async addReply(annotationId: string, projectPath: string, reply: AnnotationReply): Promise<void> {
+    const annotation = this.getWritableAnnotation(annotationId, projectPath);
+    if (annotation) {
+      annotation.replies = [...(annotation.replies || []), reply];
+      annotation.timestamp = Date.now();
+      await this.saveAnnotations(projectPath);
+    }
+  }
+
+  async updateReply(annotationId: string, projectPath: string, replyId: string, newText: string): Promise<void> {
+    const annotation = this.getWritableAnnotation(annotationId, projectPath);
+    const reply = annotation?.replies?.find(r => r.id === replyId);
+    if (annotation && reply) {
+      reply.text = newText;
+      reply.timestamp = Date.now();
+      annotation.timestamp = reply.timestamp;
+      await this.saveAnnotations(projectPath);
+    }
+  }
+
+  async removeReply(annotationId: string, projectPath: string, replyId: string): Promise<void> {
+    const annotation = this.getWritableAnnotation(annotationId, projectPath);
+    if (annotation?.replies) {
+      annotation.replies = annotation.replies.filter(r => r.id !== replyId);
+      annotation.timestamp = Date.now();
+      await this.saveAnnotations(projectPath);
+    }
+  }
+
+  /**
+   * Find the loaded project an annotation belongs to
+   */
+  getProjectPathForAnnotation(id: string): string | undefined {
+    for (const [projectPath, projectAnnotations] of this.annotations) {
+      if (projectAnnotations.some(a => a.id === id)) {
+        return projectPath;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Forget a project, e.g. when its workspace folder is removed
+   */
+  unloadProject(projectPath: string): void {
+    for (const repository of [undefined, ...this.getRepositories()]) {
+      const layer = this.layerKey(repository, projectPath);
+      this.formatVersions.delete(layer);
+      this.unreadableProjects.delete(layer);
+      this.uncommittedProjects.delete(layer);
+    }
+    this.annotations.delete(projectPath);
+    this.sources.delete(projectPath);
+    this.projectIdentities.delete(projectPath);
+    this._onDidChangeAnnotations.fire();
+  }
+
   getAnnotationById(id: string, projectPath: string): Annotation | undefined {
     const projectAnnotations = this.annotations.get(projectPath) || [];
     return projectAnnotations.find(a => a.id === id);
   }
 
-  async sync(projectPath: string): Promise<void> {
-    await this.gitService.pull();
-    await this.loadAnnotations(projectPath);
+  /**
+   * Sync every annotation repository once, then reload every given project.
+   * A repository that fails to sync doesn't stop the others; the first
+   * failure is thrown once the projects are reloaded.
+   */
+  async sync(projectPaths: string[], resolveConflicts: ConflictResolver): Promise<void> {
+    const resolve = this.cipher ? this.decryptingResolver(resolveConflicts) : resolveConflicts;
+    // Copies, since annotations are changed in place
+    const before = new Map(projectPaths.map(projectPath =>
+      [projectPath, JSON.parse(JSON.stringify(this.getAllAnnotations(projectPath))) as Annotation[]]
+    ));
+    let failure: Error | undefined;
+    for (const repository of this.getRepositories()) {
+      try {
+        await repository.git.syncWithRemote(resolve);
+      } catch (error) {
+        if (repository === this.primaryRepository) {
+          failure = failure ?? (error as Error);
+        } else {
+          const message = `${repository.name}: ${error instanceof Error ? error.message : error}`;
+          failure = failure ?? (error instanceof SyncError ? new SyncError(message, error.reason) : new Error(message));
+        }
+      }
+    }
+
+    for (const projectPath of projectPaths) {
+      await this.loadAnnotations(projectPath);
+    }
+    this._onDidSync.fire(projectPaths.map(projectPath => ({
+      projectPath,
+      before: before.get(projectPath) || [],
+      after: this.getAllAnnotations(projectPath)
+    })));
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Show conflicting annotations decrypted, while merging the encrypted
+   * versions the user picked
+   */
+  private decryptingResolver(resolveConflicts: ConflictResolver): ConflictResolver {
+    return async conflicts => {
+      const originals = new Map<Annotation, Annotation>();
+      const reveal = (annotation: Annotation | undefined) => {
+        if (!annotation) {
+          return undefined;
+        }
+        const revealed = this.revealAnnotation(annotation);
+        originals.set(revealed, annotation);
+        return revealed;
+      };
+
+      const resolutions = await resolveConflicts(conflicts.map(conflict => ({
+        ...conflict,
+        base: reveal(conflict.base),
+        ours: reveal(conflict.ours),
+        theirs: reveal(conflict.theirs)
+      })));
+      if (!resolutions) {
+        return undefined;
+      }
+      return new Map([...resolutions].map(([id, annotation]) => [id, annotation && (originals.get(annotation) ?? annotation)]));
+    };
   }
 
+  /**
+   * Save a project and commit the change to every repository it touched;
+   * changes to private annotations alone aren't committed
+   */
   async commitChanges(projectPath: string, message: string): Promise<void> {
     await this.saveAnnotations(projectPath);
-    await this.gitService.commitAndPush(message);
+    for (const repository of this.getRepositories()) {
+      if (this.uncommittedProjects.delete(this.layerKey(repository, projectPath))) {
+        await repository.git.commitAndPush(message);
+      }
+    }
   }
 }
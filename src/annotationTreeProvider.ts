@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Annotation, truncateText, isClosed, isPrivate } from './types';
+import { AnnotationStorage } from './annotationStorage';
+import { matchesQuery } from './annotationSearch';
+import { AnnotationFilter, matchesFilter } from './annotationFilter';
+import { describeRevision } from './branchScope';
+import { AnnotationRepository } from './annotationRepositories';
+
+export type AnnotationGrouping = 'file' | 'author' | 'date';
+
+interface AnnotationEntry {
+  annotation: Annotation;
+  projectPath: string;
+}
+
+export class AnnotationGroupItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly children: AnnotationItem[],
+    icon: vscode.ThemeIcon
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.description = `${children.length}`;
+    this.iconPath = icon;
+    this.contextValue = 'annotationGroup';
+  }
+}
+
+export class AnnotationItem extends vscode.TreeItem {
+  constructor(
+    public readonly annotation: Annotation,
+    public readonly projectPath: string,
+    description: string
+  ) {
+    super(`${isPrivate(annotation) ? '🔒 ' : ''}${truncateText(annotation.text, 60)}`, vscode.TreeItemCollapsibleState.None);
+    this.description = description;
+    this.tooltip = new vscode.MarkdownString(
+      `**${annotation.author}** · ${new Date(annotation.timestamp).toLocaleString()}\n\n` +
+      `\`${annotation.filePath}:${annotation.line}\`` +
+      (describeRevision(annotation) ? ` on \`${describeRevision(annotation)}\`` : '') +
+      '\n\n---\n\n'
+    ).appendText(annotation.text);
+    this.iconPath = getAnnotationIcon(annotation);
+    this.contextValue = 'annotation';
+    this.command = {
+      command: 'vscode-annotate.revealAnnotation',
+      title: 'Reveal Annotation',
+      arguments: [this]
+    };
+  }
+}
+
+function getAnnotationIcon(annotation: Annotation): vscode.ThemeIcon {
+  if (isClosed(annotation)) {
+    return new vscode.ThemeIcon('pass', new vscode.ThemeColor('disabledForeground'));
+  }
+  switch (annotation.severity) {
+    case 'critical':
+    case 'high':
+      return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+    case 'medium':
+    case 'low':
+      return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+    case 'info':
+      return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+    default:
+      return new vscode.ThemeIcon('comment');
+  }
+}
+
+export type AnnotationTreeNode = AnnotationGroupItem | AnnotationItem;
+
+/**
+ * Sidebar view listing every annotation of the open projects
+ */
+export class AnnotationTreeProvider implements vscode.TreeDataProvider<AnnotationTreeNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<AnnotationTreeNode | undefined>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private grouping: AnnotationGrouping = 'file';
+  private searchQuery: string | undefined;
+  private filter: AnnotationFilter = {};
+  private isInScope: (annotation: Annotation, projectPath: string) => boolean = () => true;
+  private getSource: (annotation: Annotation) => AnnotationRepository | undefined = () => undefined;
+
+  constructor(
+    private storage: AnnotationStorage,
+    private getProjectPaths: () => string[]
+  ) {}
+
+  /**
+   * Change how annotations are grouped
+   */
+  setGrouping(grouping: AnnotationGrouping): void {
+    this.grouping = grouping;
+    this.refresh();
+  }
+
+  getGrouping(): AnnotationGrouping {
+    return this.grouping;
+  }
+
+  /**
+   * Only show annotations matching a search query; undefined shows all
+   */
+  setSearchQuery(query: string | undefined): void {
+    this.searchQuery = query;
+    this.refresh();
+  }
+
+  getSearchQuery(): string | undefined {
+    return this.searchQuery;
+  }
+
+  /**
+   * Only show annotations matching the active filters
+   */
+  setFilter(filter: AnnotationFilter): void {
+    this.filter = filter;
+    this.refresh();
+  }
+
+  /**
+   * Only show annotations that belong in the current context, e.g. the
+   * checked out branch
+   */
+  setScope(isInScope: (annotation: Annotation, projectPath: string) => boolean): void {
+    this.isInScope = isInScope;
+    this.refresh();
+  }
+
+  /**
+   * Label annotations with the repository they came from
+   */
+  setSourceResolver(getSource: (annotation: Annotation) => AnnotationRepository | undefined): void {
+    this.getSource = getSource;
+    this.refresh();
+  }
+
+  /**
+   * Refresh the whole tree
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: AnnotationTreeNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: AnnotationTreeNode): AnnotationTreeNode[] {
+    if (element) {
+      return element instanceof AnnotationGroupItem ? element.children : [];
+    }
+    return this.buildGroups();
+  }
+
+  private buildGroups(): AnnotationGroupItem[] {
+    const entries: AnnotationEntry[] = [];
+    for (const projectPath of this.getProjectPaths()) {
+      for (const annotation of this.storage.getAllAnnotations(projectPath)) {
+        if ((!this.searchQuery || matchesQuery(annotation, this.searchQuery)) &&
+            matchesFilter(annotation, this.filter) &&
+            this.isInScope(annotation, projectPath)) {
+          entries.push({ annotation, projectPath });
+        }
+      }
+    }
+
+    switch (this.grouping) {
+      case 'author':
+        return this.group(
+          entries.sort((a, b) => b.annotation.timestamp - a.annotation.timestamp),
+          e => e.annotation.author,
+          e => `${e.annotation.filePath}:${e.annotation.line}`,
+          new vscode.ThemeIcon('person')
+        );
+      case 'date':
+        return this.group(
+          entries.sort((a, b) => b.annotation.timestamp - a.annotation.timestamp),
+          e => new Date(e.annotation.timestamp).toLocaleDateString(),
+          e => `${e.annotation.author} · ${e.annotation.filePath}:${e.annotation.line}`,
+          new vscode.ThemeIcon('calendar')
+        );
+      default:
+        return this.group(
+          entries.sort((a, b) =>
+            a.annotation.filePath.localeCompare(b.annotation.filePath) || a.annotation.line - b.annotation.line
+          ),
+          // The same relative path in two workspace folders is two files
+          e => `${e.projectPath}\0${e.annotation.filePath}`,
+          e => `${e.annotation.author} · line ${e.annotation.line}`,
+          vscode.ThemeIcon.File,
+          e => e.annotation.filePath
+        );
+    }
+  }
+
+  /**
+   * Group sorted entries, keeping the order in which groups first appear.
+   * Groups are labelled with their key unless a label is given.
+   */
+  private group(
+    entries: AnnotationEntry[],
+    groupKey: (entry: AnnotationEntry) => string,
+    describe: (entry: AnnotationEntry) => string,
+    icon: vscode.ThemeIcon,
+    groupLabel: (entry: AnnotationEntry) => string = groupKey
+  ): AnnotationGroupItem[] {
+    const groups = new Map<string, { first: AnnotationEntry; items: AnnotationItem[] }>();
+    for (const entry of entries) {
+      const key = groupKey(entry);
+      const group = groups.get(key) || { first: entry, items: [] };
+      const source = this.getSource(entry.annotation);
+      const description = source ? `${describe(entry)} · ${source.name}` : describe(entry);
+      group.items.push(new AnnotationItem(entry.annotation, entry.projectPath, description));
+      groups.set(key, group);
+    }
+
+    const multiRoot = this.getProjectPaths().length > 1;
+    return [...groups.values()].map(({ first, items }) => {
+      const group = new AnnotationGroupItem(groupLabel(first), items, icon);
+      if (this.grouping === 'file') {
+        group.resourceUri = vscode.Uri.file(path.join(first.projectPath, first.annotation.filePath));
+        if (multiRoot) {
+          group.description = `${path.basename(first.projectPath)} · ${items.length}`;
+        }
+      }
+      return group;
+    });
+  }
+}
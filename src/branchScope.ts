@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import simpleGit from 'simple-git';
+import { Annotation } from './types';
+
+/**
+ * Which branches' annotations are shown: only the current branch's, every
+ * branch's, or the current branch's plus those made on the main branch
+ */
+export type BranchMode = 'current' | 'all' | 'currentAndMain';
+
+/** Branch names treated as the main branch */
+export const MAIN_BRANCHES = ['main', 'master'];
+
+/**
+ * Source repository state recorded on an annotation when it is created
+ */
+export interface SourceRevision {
+  /** Undefined on a detached HEAD */
+  branch?: string;
+  commit?: string;
+}
+
+/**
+ * Annotations without a recorded branch are shown everywhere
+ */
+export function matchesBranchMode(annotation: Annotation, mode: BranchMode, currentBranch: string | undefined): boolean {
+  if (mode === 'all' || !annotation.branch) {
+    return true;
+  }
+  if (annotation.branch === currentBranch) {
+    return true;
+  }
+  return mode === 'currentAndMain' && MAIN_BRANCHES.includes(annotation.branch);
+}
+
+/**
+ * Read the branch and commit checked out in a source repository; empty if
+ * the folder isn't a git repository
+ */
+export async function readSourceRevision(projectPath: string): Promise<SourceRevision> {
+  try {
+    const git = simpleGit(projectPath);
+    const commit = (await git.revparse(['HEAD'])).trim();
+    const branch = (await git.raw(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '')).trim();
+    return { branch: branch || undefined, commit };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Keeps track of the branch checked out in each project and fires an event
+ * when it changes, e.g. after `git checkout` in a terminal
+ */
+export class SourceBranchTracker implements vscode.Disposable {
+  private _onDidChangeBranch = new vscode.EventEmitter<string>();
+  /** Fired with the project path whose branch changed */
+  public readonly onDidChangeBranch = this._onDidChangeBranch.event;
+
+  private revisions: Map<string, SourceRevision> = new Map();
+  private watchers: Map<string, vscode.FileSystemWatcher> = new Map();
+
+  /**
+   * Start tracking a project; tracking it again refreshes the branch
+   */
+  async track(projectPath: string): Promise<void> {
+    this.revisions.set(projectPath, await readSourceRevision(projectPath));
+    if (this.watchers.has(projectPath)) {
+      return;
+    }
+
+    let gitDir: string;
+    try {
+      gitDir = (await simpleGit(projectPath).revparse(['--absolute-git-dir'])).trim();
+    } catch {
+      // Not a git repository; there are no branches to follow
+      return;
+    }
+
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(gitDir), 'HEAD')
+    );
+    const onChange = () => this.refresh(projectPath);
+    watcher.onDidChange(onChange);
+    watcher.onDidCreate(onChange);
+    this.watchers.set(projectPath, watcher);
+  }
+
+  untrack(projectPath: string): void {
+    this.watchers.get(projectPath)?.dispose();
+    this.watchers.delete(projectPath);
+    this.revisions.delete(projectPath);
+  }
+
+  getBranch(projectPath: string): string | undefined {
+    return this.revisions.get(projectPath)?.branch;
+  }
+
+  getRevision(projectPath: string): SourceRevision {
+    return this.revisions.get(projectPath) || {};
+  }
+
+  dispose(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers.clear();
+    this._onDidChangeBranch.dispose();
+  }
+
+  private async refresh(projectPath: string): Promise<void> {
+    const previous = this.revisions.get(projectPath);
+    const current = await readSourceRevision(projectPath);
+    this.revisions.set(projectPath, current);
+    if (previous?.branch !== current.branch || previous?.commit !== current.commit) {
+      this._onDidChangeBranch.fire(projectPath);
+    }
+  }
+}
+
+/**
+ * Short label for a recorded revision, e.g. `feature/login` or `a1b2c3d`
+ */
+export function describeRevision(annotation: Annotation): string | undefined {
+  return annotation.branch ?? (annotation.commit ? annotation.commit.substring(0, 7) : undefined);
+}
@@ -0,0 +1,131 @@
+/** First retry of a failed push; doubled after every further failure */
+export const INITIAL_PUSH_RETRY_MS = 5000;
+export const MAX_PUSH_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Timer functions the scheduler runs on; tests replace them with a fake clock
+ */
+export interface Timers {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+const SYSTEM_TIMERS: Timers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout)
+};
+
+/**
+ * Decides when an annotation repository commits and pushes. Changes are
+ * batched into one commit once none arrive for the commit delay, and pushes
+ * that fail are retried with exponential backoff.
+ */
+export class CommitScheduler {
+  // Messages of changes waiting for the quiet period to end
+  private pendingMessages: string[] = [];
+  private delayMs = 0;
+  private commitTimer: unknown;
+  private pushTimer: unknown;
+  private pushRetryMs = INITIAL_PUSH_RETRY_MS;
+
+  /**
+   * @param commit Commit the changes whose messages it takes with takeMessages
+   * @param push Push queued commits; rejects if they couldn't be pushed
+   * @param onCommitError Report a commit that failed once the delay ended
+   */
+  constructor(
+    private commit: () => Promise<void>,
+    private push: () => Promise<void>,
+    private onCommitError: (error: unknown) => void,
+    private timers: Timers = SYSTEM_TIMERS
+  ) {}
+
+  /**
+   * Wait this long after the last change before committing; 0 commits
+   * immediately
+   */
+  setDelay(ms: number): void {
+    this.delayMs = Math.max(0, ms);
+  }
+
+  /**
+   * Queue a change. Without a delay it is committed before this resolves;
+   * otherwise the quiet period starts over.
+   */
+  async add(message: string): Promise<void> {
+    this.pendingMessages.push(message);
+    this.cancelCommit();
+    if (this.delayMs === 0) {
+      await this.flush();
+      return;
+    }
+    this.commitTimer = this.timers.setTimeout(() => {
+      this.commitTimer = undefined;
+      this.flush().catch(this.onCommitError);
+    }, this.delayMs);
+  }
+
+  /**
+   * Commit waiting changes right away, then push
+   */
+  async flush(): Promise<void> {
+    this.cancelCommit();
+    if (this.pendingMessages.length === 0) {
+      return;
+    }
+    await this.commit();
+    this.schedulePush(0);
+  }
+
+  /**
+   * Messages of the changes waiting to be committed, which are then no
+   * longer waiting
+   */
+  takeMessages(): string[] {
+    const messages = this.pendingMessages;
+    this.pendingMessages = [];
+    return messages;
+  }
+
+  /**
+   * Push after a delay, by default the current retry delay. Each failure
+   * doubles the delay up to its maximum; a success resets it.
+   */
+  schedulePush(delay = this.pushRetryMs): void {
+    this.cancelPush();
+    this.pushTimer = this.timers.setTimeout(() => {
+      this.pushTimer = undefined;
+      this.push().then(
+        () => {
+          this.pushRetryMs = INITIAL_PUSH_RETRY_MS;
+        },
+        () => {
+          this.schedulePush(this.pushRetryMs);
+          this.pushRetryMs = Math.min(this.pushRetryMs * 2, MAX_PUSH_RETRY_MS);
+        }
+      );
+    }, delay);
+  }
+
+  /**
+   * Stop the quiet period and push retries; waiting changes stay queued
+   */
+  cancel(): void {
+    this.cancelCommit();
+    this.cancelPush();
+  }
+
+  private cancelCommit(): void {
+    if (this.commitTimer !== undefined) {
+      this.timers.clearTimeout(this.commitTimer);
+      this.commitTimer = undefined;
+    }
+  }
+
+  private cancelPush(): void {
+    if (this.pushTimer !== undefined) {
+      this.timers.clearTimeout(this.pushTimer);
+      this.pushTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { Annotation, truncateText } from './types';
+import { AnnotationConflict, ConflictResolutions } from './annotationMerge';
+
+interface ResolutionItem extends vscode.QuickPickItem {
+  annotation: Annotation | undefined;
+}
+
+/**
+ * Ask the user to pick a version for each conflicting annotation. Returns
+ * undefined if the user cancels, in which case nothing should be merged.
+ */
+export async function resolveAnnotationConflicts(
+  conflicts: AnnotationConflict[]
+): Promise<ConflictResolutions | undefined> {
+  const resolutions: ConflictResolutions = new Map();
+
+  for (let i = 0; i < conflicts.length; i++) {
+    const conflict = conflicts[i];
+    const reference = conflict.ours || conflict.theirs || conflict.base;
+    const location = reference ? `${reference.filePath}:${reference.line}` : conflict.id;
+
+    const items: ResolutionItem[] = [
+      createItem('Keep my version', conflict.ours),
+      createItem('Take their version', conflict.theirs)
+    ];
+
+    const choice = await vscode.window.showQuickPick(items, {
+      title: `Annotation conflict ${i + 1} of ${conflicts.length}: ${location}`,
+      placeHolder: 'Choose which version to keep (Escape cancels the sync)',
+      ignoreFocusOut: true
+    });
+
+    if (!choice) {
+      return undefined;
+    }
+    resolutions.set(conflict.id, choice.annotation);
+  }
+
+  return resolutions;
+}
+
+function createItem(label: string, annotation: Annotation | undefined): ResolutionItem {
+  if (!annotation) {
+    return {
+      label,
+      description: 'Deleted',
+      annotation: undefined
+    };
+  }
+
+  return {
+    label,
+    description: `${annotation.author}, ${new Date(annotation.timestamp).toLocaleString()}`,
+    detail: truncateText(annotation.text, 100),
+    annotation
+  };
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import { parseKey } from './annotationCrypto';
+
+const CURRENT_KEY_SECRET = 'vscode-annotate.encryptionKey';
+const PREVIOUS_KEYS_SECRET = 'vscode-annotate.previousEncryptionKeys';
+
+/**
+ * Where the team's encryption keys are kept: the key file named by the
+ * `vscode-annotate.encryptionKeyFile` setting, or VS Code's secret storage.
+ * A key file holds one base64 key per line, the current key first; lines
+ * starting with `#` are ignored.
+ */
+export class EncryptionKeyStore {
+  constructor(private secrets: vscode.SecretStorage) {}
+
+  /**
+   * Every stored key, the current one first; empty if no key is set
+   */
+  async getKeys(): Promise<string[]> {
+    const keyFile = this.getKeyFile();
+    if (keyFile) {
+      let content: string;
+      try {
+        content = await fs.readFile(keyFile, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+      return content.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+    }
+
+    const current = await this.secrets.get(CURRENT_KEY_SECRET);
+    if (!current) {
+      return [];
+    }
+    const previous = await this.secrets.get(PREVIOUS_KEYS_SECRET);
+    return [current, ...(previous ? JSON.parse(previous) as string[] : [])];
+  }
+
+  /**
+   * Make a key the current one. The key it replaces is kept to decrypt what
+   * was encrypted with it.
+   */
+  async setKey(key: string): Promise<void> {
+    parseKey(key);
+    const keys = [key.trim(), ...(await this.getKeys()).filter(k => k !== key.trim())];
+
+    const keyFile = this.getKeyFile();
+    if (keyFile) {
+      await fs.writeFile(keyFile, keys.join('\n') + '\n', { encoding: 'utf-8', mode: 0o600 });
+      return;
+    }
+    await this.secrets.store(CURRENT_KEY_SECRET, keys[0]);
+    await this.secrets.store(PREVIOUS_KEYS_SECRET, JSON.stringify(keys.slice(1)));
+  }
+
+  /**
+   * Where keys are kept, for messages
+   */
+  describeLocation(): string {
+    const keyFile = this.getKeyFile();
+    return keyFile ? `key file ${keyFile}` : 'VS Code secret storage';
+  }
+
+  private getKeyFile(): string | undefined {
+    return vscode.workspace.getConfiguration('vscode-annotate').get<string>('encryptionKeyFile') || undefined;
+  }
+}
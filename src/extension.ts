@@ -3,88 +3,288 @@ import { GitService } from './gitService';
 import { AnnotationStorage } from './annotationStorage';
 import { AnnotationCommentController } from './annotationCommentController';
 import { AnnotationCodeLensProvider } from './annotationCodeLensProvider';
-import { Annotation } from './types';
+import { AnnotationHoverProvider } from './annotationHoverProvider';
+import {
+  Annotation,
+  AnnotationSeverity,
+  AnnotationVisibility,
+  ClosedAnnotationDisplay,
+  SEVERITIES,
+  STATUSES,
+  getStatus,
+  getStatusLabel,
+  isArchived,
+  isClosed,
+  isPrivate,
+  isRangeAnnotation,
+  parseTags,
+  relativeAnnotationPath,
+  truncateText
+} from './types';
+import { MIN_ANCHOR_CONFIDENCE, createAnchor, locateAnchor, splitLines } from './anchor';
+import { AnnotationPositionTracker } from './positionTracker';
+import { resolveAnnotationConflicts } from './conflictResolver';
+import { AnnotationTreeProvider, AnnotationTreeNode, AnnotationItem, AnnotationGrouping } from './annotationTreeProvider';
+import { AnnotationFilter, matchesFilter, isFilterActive, describeFilter, formatDate, parseDate } from './annotationFilter';
+import { searchAnnotations } from './annotationSearch';
+import { AnnotationSyncManager } from './syncManager';
+import { findDeletedAnnotations, loadProjectHistory } from './annotationHistory';
+import { AnnotationHistoryContentProvider, HISTORY_SCHEME, showAnnotationHistory } from './historyViewer';
+import { BranchMode, MAIN_BRANCHES, SourceBranchTracker, matchesBranchMode, readSourceRevision } from './branchScope';
+import { ExportEntry, ExportFormat, createLink, extractSnippet, renderReport } from './annotationExport';
+import { ImportFormat, createImportedAnnotations, detectImportFormat, parseImportFile } from './annotationImport';
+import { AnnotationRepository, RepositoryConfig, resolveRepositoryConfigs } from './annotationRepositories';
+import { AnnotationCipher, generateKey, parseKey } from './annotationCrypto';
+import { EncryptionKeyStore } from './encryptionKeys';
+import { FileRename, followRenames, readSourceRenames } from './fileRenames';
+import { OrphanItem, OrphanTreeNode, OrphanedAnnotationsProvider } from './orphanTreeProvider';
+import { AnnotationInboxProvider, InboxItem } from './inboxTreeProvider';
+import { InboxEntry, annotationMentionsUser } from './annotationInbox';
+import {
+  ANNOTATION_URI_PATH,
+  LinkTarget,
+  createAnnotationUriQuery,
+  escapeLinkLabel,
+  parseAnnotationUriQuery,
+  renderLinks,
+  resolveLinkedFile
+} from './annotationLinks';
 import * as path from 'path';
+import * as fs from 'fs/promises';
 import { randomUUID } from 'crypto';
 
 let gitService: GitService;
 let annotationStorage: AnnotationStorage;
 let commentController: AnnotationCommentController;
 let codeLensProvider: AnnotationCodeLensProvider;
-let currentProjectPath: string | undefined;
+let hoverProvider: AnnotationHoverProvider;
+let positionTracker: AnnotationPositionTracker;
+let syncManager: AnnotationSyncManager;
+let branchTracker: SourceBranchTracker;
+let keyStore: EncryptionKeyStore;
+let branchMode: BranchMode = 'all';
+let treeProvider: AnnotationTreeProvider;
+let treeView: vscode.TreeView<AnnotationTreeNode>;
+let orphanProvider: OrphanedAnnotationsProvider;
+let orphanView: vscode.TreeView<OrphanTreeNode>;
+let inboxProvider: AnnotationInboxProvider;
+let inboxView: vscode.TreeView<InboxItem>;
+let activeFilter: AnnotationFilter = {};
 let annotationsEnabled: boolean = true;
+let closedDisplay: ClosedAnnotationDisplay = 'dimmed';
+let rangeHighlightDecoration: vscode.TextEditorDecorationType;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('Code Annotate extension is now active');
 
   gitService = new GitService();
-  annotationStorage = new AnnotationStorage(gitService);
+  annotationStorage = new AnnotationStorage(gitService, path.join(context.globalStorageUri.fsPath, 'private'));
   commentController = new AnnotationCommentController();
   codeLensProvider = new AnnotationCodeLensProvider();
+  hoverProvider = new AnnotationHoverProvider();
+  positionTracker = new AnnotationPositionTracker();
+  rangeHighlightDecoration = createRangeHighlightDecoration();
+  syncManager = new AnnotationSyncManager(annotationStorage, getProjectPaths, refreshDecorations);
+  branchTracker = new SourceBranchTracker();
+  keyStore = new EncryptionKeyStore(context.secrets);
 
   // Set up comment controller handlers
   commentController.setHandlers(
     // onSave handler
-    async (filePath: string, line: number, text: string, author: string) => {
-      if (!currentProjectPath) return;
+    async (filePath: string, range: vscode.Range, text: string, author: string) => {
+      const projectPath = getProjectPathForUri(vscode.Uri.file(filePath));
+      if (!projectPath) {
+        return;
+      }
 
-      const relativePath = path.relative(currentProjectPath, filePath);
+      const relativePath = relativeAnnotationPath(projectPath, filePath);
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      const line = range.start.line + 1; // Convert to 1-indexed
       const annotation: Annotation = {
         id: randomUUID(),
         filePath: relativePath,
         line,
-        column: 0,
+        column: range.isEmpty ? 0 : range.start.character,
         text,
         author,
         timestamp: Date.now(),
-        projectPath: currentProjectPath
+        project: annotationStorage.getProjectIdentity(projectPath).key,
+        anchor: createAnchor(splitLines(document.getText()), line)
       };
+      const config = vscode.workspace.getConfiguration('vscode-annotate');
+      if (config.get<AnnotationVisibility>('defaultVisibility', 'shared') === 'private') {
+        annotation.visibility = 'private';
+      }
+      if (config.get<boolean>('recordBranch', false)) {
+        const revision = await readSourceRevision(projectPath);
+        annotation.branch = revision.branch;
+        annotation.commit = revision.commit;
+      }
+      if (!range.isEmpty) {
+        annotation.endLine = range.end.line + 1;
+        annotation.endColumn = range.end.character;
+      }
 
-      await annotationStorage.addAnnotation(annotation);
+      await annotationStorage.addAnnotation(annotation, projectPath);
       await annotationStorage.commitChanges(
-        currentProjectPath,
+        projectPath,
         `Add annotation by ${author} to ${relativePath}`
       );
       refreshDecorations();
     },
     // onDelete handler
     async (annotationId: string) => {
-      if (!currentProjectPath) return;
+      const projectPath = annotationStorage.getProjectPathForAnnotation(annotationId);
+      if (!projectPath) {
+        return;
+      }
 
-      await annotationStorage.removeAnnotation(annotationId, currentProjectPath);
-      await annotationStorage.commitChanges(
-        currentProjectPath,
-        `Remove annotation ${annotationId}`
-      );
-      refreshDecorations();
+      await deleteAnnotation(annotationId, projectPath);
     },
     // onEdit handler
     async (annotationId: string, newText: string) => {
-      if (!currentProjectPath) return;
+      const projectPath = annotationStorage.getProjectPathForAnnotation(annotationId);
+      if (!projectPath) {
+        return;
+      }
 
-      await annotationStorage.updateAnnotation(annotationId, currentProjectPath, newText);
+      await annotationStorage.updateAnnotation(annotationId, projectPath, newText);
       await annotationStorage.commitChanges(
-        currentProjectPath,
+        projectPath,
         `Update annotation ${annotationId}`
       );
       refreshDecorations();
     }
   );
 
+  commentController.setReplyHandlers(
+    // onReply handler
+    async (annotationId: string, replyId: string, text: string, author: string) => {
+      const projectPath = annotationStorage.getProjectPathForAnnotation(annotationId);
+      if (!projectPath) {
+        return;
+      }
+
+      await annotationStorage.addReply(annotationId, projectPath, {
+        id: replyId,
+        text,
+        author,
+        timestamp: Date.now()
+      });
+      await annotationStorage.commitChanges(
+        projectPath,
+        `Reply by ${author} to ${describeAnnotation(annotationId, projectPath)}`
+      );
+      refreshDecorations();
+    },
+    // onEditReply handler
+    async (annotationId: string, replyId: string, newText: string) => {
+      const projectPath = annotationStorage.getProjectPathForAnnotation(annotationId);
+      if (!projectPath) {
+        return;
+      }
+
+      await annotationStorage.updateReply(annotationId, projectPath, replyId, newText);
+      await annotationStorage.commitChanges(
+        projectPath,
+        `Update reply ${replyId} to ${describeAnnotation(annotationId, projectPath)}`
+      );
+      refreshDecorations();
+    },
+    // onDeleteReply handler
+    async (annotationId: string, replyId: string) => {
+      const projectPath = annotationStorage.getProjectPathForAnnotation(annotationId);
+      if (!projectPath) {
+        return;
+      }
+
+      await annotationStorage.removeReply(annotationId, projectPath, replyId);
+      await annotationStorage.commitChanges(
+        projectPath,
+        `Remove reply ${replyId} from ${describeAnnotation(annotationId, projectPath)}`
+      );
+      refreshDecorations();
+    }
+  );
+
   // Register CodeLens provider
   const codeLensDisposable = vscode.languages.registerCodeLensProvider(
     { scheme: 'file' },
     codeLensProvider
   );
 
+  // Show annotation text as Markdown when hovering annotated lines
+  const hoverDisposable = vscode.languages.registerHoverProvider(
+    { scheme: 'file' },
+    hoverProvider
+  );
+
+  // Register the annotations sidebar view
+  treeProvider = new AnnotationTreeProvider(
+    annotationStorage,
+    getProjectPaths
+  );
+  treeProvider.setGrouping(context.workspaceState.get<AnnotationGrouping>('annotationGrouping', 'file'));
+  treeView = vscode.window.createTreeView('vscode-annotate.annotationsView', {
+    treeDataProvider: treeProvider,
+    showCollapseAll: true
+  });
+  await applyFilter(context, context.workspaceState.get<AnnotationFilter>('annotationFilter', {}));
+
+  // Register the view of annotations that lost their code
+  orphanProvider = new OrphanedAnnotationsProvider(annotationStorage, getProjectPaths, readFileLines);
+  orphanView = vscode.window.createTreeView('vscode-annotate.orphanedAnnotationsView', {
+    treeDataProvider: orphanProvider
+  });
+  const orphanChangeSubscription = orphanProvider.onDidChangeTreeData(() => {
+    const count = orphanProvider.getOrphanCount();
+    orphanView.badge = count > 0 ? { value: count, tooltip: `${count} orphaned annotation(s)` } : undefined;
+  });
+
+  // Register the inbox of changes made by teammates
+  inboxProvider = new AnnotationInboxProvider(annotationStorage, context.workspaceState);
+  inboxView = vscode.window.createTreeView('vscode-annotate.inboxView', {
+    treeDataProvider: inboxProvider
+  });
+  const inboxChangeSubscription = inboxProvider.onDidChangeTreeData(() => {
+    const count = inboxProvider.getUnreadCount();
+    inboxView.badge = count > 0 ? { value: count, tooltip: `${count} unread annotation(s)` } : undefined;
+  });
+  const syncSubscription = annotationStorage.onDidSync(async (projects) => {
+    await notifyAboutChanges(await inboxProvider.addSyncedChanges(projects));
+  });
+
+  const storageChangeSubscription = annotationStorage.onDidChangeAnnotations(() => {
+    treeProvider.refresh();
+    orphanProvider.refresh();
+    inboxProvider.refresh();
+  });
+
   const config = vscode.workspace.getConfiguration('vscode-annotate');
   const repoPath = config.get<string>('repositoryPath');
   annotationsEnabled = config.get<boolean>('annotationsEnabled', true);
   codeLensProvider.setEnabled(annotationsEnabled);
+  hoverProvider.setEnabled(annotationsEnabled);
+  closedDisplay = config.get<ClosedAnnotationDisplay>('closedAnnotations', 'dimmed');
+  codeLensProvider.setClosedDisplay(closedDisplay);
+  branchMode = config.get<BranchMode>('branchMode', 'all');
+  treeProvider.setScope(isInScope);
+  orphanProvider.setScope(isOnVisibleBranch);
+  treeProvider.setSourceResolver(getAnnotationSource);
+  codeLensProvider.setSourceResolver(getAnnotationSource);
+  commentController.setSourceResolver(getAnnotationSource);
+  codeLensProvider.setMentionChecker(mentionsCurrentUser);
+  commentController.setMentionChecker(mentionsCurrentUser);
+  commentController.setTextRenderer(renderAnnotationMarkdown);
+  hoverProvider.setRenderer(renderAnnotationHover);
+  configureAutoSync();
+  gitService.setCommitDelay(config.get<number>('commitDelay', 5) * 1000);
+  annotationStorage.setTargetRepository(config.get<string>('targetRepository') || undefined);
+  await configureEncryption();
 
   if (repoPath) {
     try {
-      await gitService.initialize(repoPath);
+      await openRepositories(repoPath);
       // Set author for comments as early as possible
       const userInfo = await gitService.getGitUserInfo();
       commentController.setAuthorForNewThreads(userInfo.name);
@@ -99,6 +299,7 @@ export async function activate(context: vscode.ExtensionContext) {
     async () => {
       annotationsEnabled = !annotationsEnabled;
       codeLensProvider.setEnabled(annotationsEnabled);
+      hoverProvider.setEnabled(annotationsEnabled);
 
       await vscode.workspace.getConfiguration('vscode-annotate').update(
         'annotationsEnabled',
@@ -124,15 +325,11 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      // Ensure we have a current project path
-      if (!currentProjectPath) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-          vscode.window.showErrorMessage('No workspace folder open. Please open a folder first.');
-          return;
-        }
-        currentProjectPath = workspaceFolders[0].uri.fsPath;
-        await annotationStorage.loadAnnotations(currentProjectPath);
+      // Annotations belong to the workspace folder that contains the file
+      const projectPath = getProjectPathForUri(editor.document.uri);
+      if (!projectPath) {
+        vscode.window.showErrorMessage('This file is not part of an open workspace folder. Please open its folder first.');
+        return;
       }
 
       const repoPath = gitService.getRepoPath();
@@ -151,9 +348,12 @@ export async function activate(context: vscode.ExtensionContext) {
       const userInfo = await gitService.getGitUserInfo();
       commentController.setAuthorForNewThreads(userInfo.name);
 
-      // Create an empty comment thread at the cursor position to trigger input
-      const position = editor.selection.active;
-      commentController.createEmptyThreadForInput(editor.document.uri, position.line);
+      // Create an empty comment thread over the selection (or at the cursor) to trigger input
+      const selection = editor.selection;
+      const range = selection.isEmpty
+        ? new vscode.Range(selection.active.line, 0, selection.active.line, 0)
+        : new vscode.Range(selection.start, selection.end);
+      commentController.createEmptyThreadForInput(editor.document.uri, range);
     }
   );
 
@@ -171,160 +371,1938 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  const changeEditorSubscription = vscode.window.onDidChangeActiveTextEditor(
-    (editor) => {
-      if (editor) {
-        updateDecorationsForEditor(editor);
-      }
+  const migrateStorageCommand = vscode.commands.registerCommand(
+    'vscode-annotate.migrateStorage',
+    async () => {
+      await migrateStorage();
     }
   );
 
-  const changeTextSubscription = vscode.workspace.onDidChangeTextDocument(
-    (event) => {
-      const editor = vscode.window.activeTextEditor;
-      if (editor && event.document === editor.document) {
-        updateDecorationsForEditor(editor);
+  const revealAnnotationCommand = vscode.commands.registerCommand(
+    'vscode-annotate.revealAnnotation',
+    async (item: AnnotationItem) => {
+      await revealAnnotation(item.annotation, item.projectPath);
+    }
+  );
+
+  const editAnnotationCommand = vscode.commands.registerCommand(
+    'vscode-annotate.editAnnotation',
+    async (item: AnnotationItem) => {
+      await revealAnnotation(item.annotation, item.projectPath);
+      commentController.startEditing(item.annotation.id);
+    }
+  );
+
+  const deleteAnnotationCommand = vscode.commands.registerCommand(
+    'vscode-annotate.deleteAnnotation',
+    async (item: AnnotationItem) => {
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete annotation by ${item.annotation.author} on ${item.annotation.filePath}:${item.annotation.line}?`,
+        { modal: true },
+        'Delete'
+      );
+      if (confirm !== 'Delete') {
+        return;
+      }
+
+      try {
+        await deleteAnnotation(item.annotation.id, item.projectPath);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to delete annotation: ${error}`);
       }
     }
   );
 
-  const configChangeSubscription = vscode.workspace.onDidChangeConfiguration(
-    async (event) => {
-      if (event.affectsConfiguration('vscode-annotate.repositoryPath')) {
-        const newRepoPath = vscode.workspace.getConfiguration('vscode-annotate').get<string>('repositoryPath');
-        if (newRepoPath) {
-          try {
-            await gitService.initialize(newRepoPath);
-            await loadAnnotationsForWorkspace();
-            vscode.window.showInformationMessage('Annotation repository updated');
-          } catch (error) {
-            vscode.window.showErrorMessage(`Failed to update repository: ${error}`);
-          }
+  const historyContentProvider = new AnnotationHistoryContentProvider();
+  const historyProviderRegistration = vscode.workspace.registerTextDocumentContentProvider(
+    HISTORY_SCHEME,
+    historyContentProvider
+  );
+
+  const showHistoryCommand = vscode.commands.registerCommand(
+    'vscode-annotate.showAnnotationHistory',
+    async (target: vscode.CommentThread | AnnotationItem) => {
+      const resolved = target instanceof AnnotationItem
+        ? { annotation: target.annotation, projectPath: target.projectPath }
+        : getThreadAnnotation(target);
+      if (!resolved) {
+        return;
+      }
+
+      try {
+        const git = annotationStorage.getRepositoryForAnnotation(resolved.annotation.id, resolved.projectPath)?.git ?? gitService;
+        // Changes still waiting for the commit delay belong in the history
+        await git.flush();
+        const history = await loadProjectHistory(
+          git,
+          annotationStorage.getProjectRepoDir(resolved.projectPath),
+          annotation => annotationStorage.revealAnnotation(annotation)
+        );
+        const versions = history.get(resolved.annotation.id);
+        if (!versions || versions.length === 0) {
+          vscode.window.showInformationMessage('This annotation has no committed history yet');
+          return;
         }
+
+        showAnnotationHistory(versions, resolved.annotation, historyContentProvider, async (annotation, version) => {
+          await restoreAnnotation(annotation, resolved.projectPath, `version ${version.commit.substring(0, 7)}`);
+        });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read annotation history: ${error}`);
       }
-      if (event.affectsConfiguration('vscode-annotate.annotationsEnabled')) {
-        annotationsEnabled = vscode.workspace.getConfiguration('vscode-annotate').get<boolean>('annotationsEnabled', true);
-        codeLensProvider.setEnabled(annotationsEnabled);
-        refreshDecorations();
+    }
+  );
+
+  const restoreDeletedCommand = vscode.commands.registerCommand(
+    'vscode-annotate.restoreDeletedAnnotation',
+    async () => {
+      const projectPath = await pickProjectPath('Select the workspace folder to restore an annotation in');
+      if (!projectPath) {
+        return;
+      }
+
+      try {
+        // Restored annotations go to the target repository, so that is where
+        // deleted ones are looked for
+        const git = annotationStorage.getTargetRepository()?.git ?? gitService;
+        // Changes still waiting for the commit delay belong in the history
+        await git.flush();
+        const history = await loadProjectHistory(
+          git,
+          annotationStorage.getProjectRepoDir(projectPath),
+          annotation => annotationStorage.revealAnnotation(annotation)
+        );
+        const deleted = findDeletedAnnotations(history)
+          .filter(({ annotation }) => !annotationStorage.getAnnotationById(annotation.id, projectPath));
+        if (deleted.length === 0) {
+          vscode.window.showInformationMessage('No deleted annotations found');
+          return;
+        }
+
+        const choice = await vscode.window.showQuickPick(
+          deleted.map(({ annotation, deletedIn }) => ({
+            label: truncateText(annotation.text, 80),
+            description: `${annotation.filePath}:${annotation.line}`,
+            detail: `Deleted by ${deletedIn.author} on ${new Date(deletedIn.date).toLocaleString()}`,
+            annotation,
+            commit: deletedIn.commit
+          })),
+          { placeHolder: 'Select an annotation to restore', matchOnDescription: true }
+        );
+        if (choice) {
+          await restoreAnnotation(choice.annotation, projectPath, `before deletion in ${choice.commit.substring(0, 7)}`);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read annotation history: ${error}`);
       }
     }
   );
 
-  const workspaceFoldersChangeSubscription = vscode.workspace.onDidChangeWorkspaceFolders(
+  const groupAnnotationsCommand = vscode.commands.registerCommand(
+    'vscode-annotate.groupAnnotationsBy',
     async () => {
-      await loadAnnotationsForWorkspace();
-      refreshDecorations();
+      const choices: { label: string; grouping: AnnotationGrouping }[] = [
+        { label: 'File', grouping: 'file' },
+        { label: 'Author', grouping: 'author' },
+        { label: 'Date', grouping: 'date' }
+      ];
+      const choice = await vscode.window.showQuickPick(
+        choices.map(c => ({ ...c, description: c.grouping === treeProvider.getGrouping() ? 'current' : undefined })),
+        { placeHolder: 'Group annotations by' }
+      );
+      if (choice) {
+        treeProvider.setGrouping(choice.grouping);
+        await context.workspaceState.update('annotationGrouping', choice.grouping);
+      }
     }
   );
 
-  context.subscriptions.push(
-    toggleCommand,
-    addAnnotationCommand,
-    configureRepoCommand,
-    syncCommand,
-    codeLensDisposable,
-    changeEditorSubscription,
-    changeTextSubscription,
-    configChangeSubscription,
-    workspaceFoldersChangeSubscription,
-    commentController
+  const refreshViewCommand = vscode.commands.registerCommand(
+    'vscode-annotate.refreshAnnotationsView',
+    () => {
+      treeProvider.refresh();
+    }
   );
 
-  if (vscode.window.activeTextEditor) {
-    updateDecorationsForEditor(vscode.window.activeTextEditor);
-  }
-}
+  const searchCommand = vscode.commands.registerCommand(
+    'vscode-annotate.searchAnnotations',
+    () => {
+      searchAnnotations(
+        annotationStorage,
+        getProjectPaths(),
+        revealAnnotation,
+        async (query) => {
+          treeProvider.setSearchQuery(query);
+          updateTreeViewMessage();
+          await vscode.commands.executeCommand('setContext', 'vscode-annotate.searchActive', true);
+          await vscode.commands.executeCommand('vscode-annotate.annotationsView.focus');
+        }
+      );
+    }
+  );
 
-async function loadAnnotationsForWorkspace(): Promise<void> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
-    return;
-  }
+  const clearSearchCommand = vscode.commands.registerCommand(
+    'vscode-annotate.clearAnnotationSearch',
+    async () => {
+      treeProvider.setSearchQuery(undefined);
+      updateTreeViewMessage();
+      await vscode.commands.executeCommand('setContext', 'vscode-annotate.searchActive', false);
+    }
+  );
 
-  currentProjectPath = workspaceFolders[0].uri.fsPath;
-  await annotationStorage.loadAnnotations(currentProjectPath);
-  refreshDecorations();
-}
+  const setSeverityCommand = vscode.commands.registerCommand(
+    'vscode-annotate.setSeverity',
+    async (thread: vscode.CommentThread) => {
+      const target = getThreadAnnotation(thread);
+      if (!target) {
+        return;
+      }
 
-async function configureRepository(): Promise<void> {
-  const repoPath = await vscode.window.showInputBox({
-    prompt: 'Enter the path to your annotations git repository',
-    placeHolder: '/path/to/annotations-repo',
-    validateInput: (text) => {
-      return text.trim().length === 0 ? 'Path cannot be empty' : null;
+      const items = [
+        ...SEVERITIES.map(severity => ({ label: severity, severity: severity as AnnotationSeverity | undefined })),
+        { label: 'None', severity: undefined }
+      ];
+      const choice = await vscode.window.showQuickPick(
+        items.map(item => ({
+          ...item,
+          description: item.severity === target.annotation.severity ? 'current' : undefined
+        })),
+        { placeHolder: 'Select severity' }
+      );
+      if (!choice) {
+        return;
+      }
+
+      await classifyAnnotation(target.annotation, target.projectPath, { severity: choice.severity },
+        `Set severity of ${describeAnnotation(target.annotation.id, target.projectPath)} to ${choice.label}`);
     }
-  });
+  );
 
-  if (!repoPath) {
-    return;
-  }
+  const editTagsCommand = vscode.commands.registerCommand(
+    'vscode-annotate.editTags',
+    async (thread: vscode.CommentThread) => {
+      const target = getThreadAnnotation(thread);
+      if (!target) {
+        return;
+      }
 
-  try {
-    await gitService.initialize(repoPath);
+      const input = await vscode.window.showInputBox({
+        prompt: 'Tags, separated by commas or spaces',
+        placeHolder: 'crypto, auth',
+        value: (target.annotation.tags || []).join(', ')
+      });
+      if (input === undefined) {
+        return;
+      }
 
-    await vscode.workspace.getConfiguration('vscode-annotate').update(
-      'repositoryPath',
-      repoPath,
-      vscode.ConfigurationTarget.Global
-    );
+      await classifyAnnotation(target.annotation, target.projectPath, { tags: parseTags(input) },
+        `Update tags of ${describeAnnotation(target.annotation.id, target.projectPath)}`);
+    }
+  );
 
-    await loadAnnotationsForWorkspace();
+  const setCategoryCommand = vscode.commands.registerCommand(
+    'vscode-annotate.setCategory',
+    async (thread: vscode.CommentThread) => {
+      const target = getThreadAnnotation(thread);
+      if (!target) {
+        return;
+      }
 
-    vscode.window.showInformationMessage(
-      'Annotation repository configured successfully'
-    );
-  } catch (error) {
-    vscode.window.showErrorMessage(`Failed to configure repository: ${error}`);
-  }
-}
+      const input = await vscode.window.showInputBox({
+        prompt: 'Category (leave empty to clear)',
+        placeHolder: 'finding, question, todo...',
+        value: target.annotation.category || ''
+      });
+      if (input === undefined) {
+        return;
+      }
 
-async function syncAnnotations(): Promise<void> {
-  if (!currentProjectPath) {
-    vscode.window.showErrorMessage('No workspace folder open');
-    return;
-  }
+      await classifyAnnotation(target.annotation, target.projectPath, { category: input.trim() || undefined },
+        `Set category of ${describeAnnotation(target.annotation.id, target.projectPath)}`);
+    }
+  );
 
-  try {
-    await annotationStorage.sync(currentProjectPath);
-    vscode.window.showInformationMessage('Annotations synced successfully');
-    refreshDecorations();
-  } catch (error) {
-    vscode.window.showErrorMessage(`Failed to sync annotations: ${error}`);
-  }
-}
+  const changeStatusCommand = vscode.commands.registerCommand(
+    'vscode-annotate.changeStatus',
+    async (thread: vscode.CommentThread) => {
+      const target = getThreadAnnotation(thread);
+      if (!target) {
+        return;
+      }
 
-async function updateDecorationsForEditor(editor: vscode.TextEditor): Promise<void> {
-  if (!currentProjectPath) {
-    return;
-  }
+      const current = getStatus(target.annotation);
+      const choice = await vscode.window.showQuickPick(
+        STATUSES.map(status => ({
+          label: getStatusLabel(status),
+          description: status === current ? 'current' : undefined,
+          status
+        })),
+        { placeHolder: 'Set annotation status' }
+      );
+      if (!choice || choice.status === current) {
+        return;
+      }
 
-  const filePath = path.relative(currentProjectPath, editor.document.uri.fsPath);
-  const annotations = annotationStorage.getAnnotationsForFile(
-    filePath,
-    currentProjectPath
+      const description = describeAnnotation(target.annotation.id, target.projectPath);
+      try {
+        const userInfo = await gitService.getGitUserInfo();
+        await annotationStorage.updateStatus(target.annotation.id, target.projectPath, choice.status, userInfo.name);
+        await annotationStorage.commitChanges(target.projectPath, `Mark ${description} as ${choice.label}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to update annotation status: ${error}`);
+      }
+      refreshDecorations();
+    }
   );
 
-  // Display all annotations via CodeLens (above the line)
-  codeLensProvider.setAnnotationsForFile(filePath, annotations);
+  const selectTargetRepositoryCommand = vscode.commands.registerCommand(
+    'vscode-annotate.selectTargetRepository',
+    async () => {
+      const repositories = annotationStorage.getRepositories().filter(repository => !repository.readOnly);
+      if (repositories.length === 0) {
+        vscode.window.showInformationMessage('Annotation repository not configured');
+        return;
+      }
 
-  // Set author for new comment threads
-  const userInfo = await gitService.getGitUserInfo();
-  commentController.setAuthorForNewThreads(userInfo.name);
+      const target = annotationStorage.getTargetRepository();
+      const choice = await vscode.window.showQuickPick(
+        repositories.map(repository => ({
+          label: repository.name,
+          description: repository === target ? 'current' : undefined,
+          detail: repository.git.getRepoPath() ?? undefined
+        })),
+        { placeHolder: 'Save new annotations to which repository?' }
+      );
+      if (choice) {
+        await vscode.workspace.getConfiguration('vscode-annotate').update(
+          'targetRepository', choice.label, vscode.ConfigurationTarget.Workspace
+        );
+      }
+    }
+  );
 
-  // Clear existing comment threads for this document and recreate
-  commentController.clearThreadsForDocument(editor.document.uri);
-  for (const annotation of annotations) {
-    commentController.createThreadForAnnotation(editor.document.uri, annotation);
-  }
-}
+  const makePrivateCommand = vscode.commands.registerCommand(
+    'vscode-annotate.makePrivate',
+    async (thread: vscode.CommentThread) => {
+      const target = getThreadAnnotation(thread);
+      if (!target || isPrivate(target.annotation)) {
+        return;
+      }
 
-function refreshDecorations(): void {
-  const editor = vscode.window.activeTextEditor;
-  if (editor) {
-    updateDecorationsForEditor(editor);
-  }
-}
+      const confirm = await vscode.window.showWarningMessage(
+        'Make this annotation private? It is removed from the annotation repository for everyone, ' +
+        'but earlier commits still contain it.',
+        { modal: true },
+        'Make Private'
+      );
+      if (confirm !== 'Make Private') {
+        return;
+      }
+      await setVisibility(target.annotation.id, target.projectPath, 'private');
+    }
+  );
+
+  const shareCommand = vscode.commands.registerCommand(
+    'vscode-annotate.shareAnnotation',
+    async (thread: vscode.CommentThread) => {
+      const target = getThreadAnnotation(thread);
+      if (!target || !isPrivate(target.annotation)) {
+        return;
+      }
+      await setVisibility(target.annotation.id, target.projectPath, 'shared');
+    }
+  );
+
+  const openAnnotationLinkCommand = vscode.commands.registerCommand(
+    'vscode-annotate.openAnnotationLink',
+    openAnnotationLink
+  );
+
+  const copyAnnotationLinkCommand = vscode.commands.registerCommand(
+    'vscode-annotate.copyAnnotationLink',
+    async (target: vscode.CommentThread | AnnotationItem) => {
+      const found = target instanceof AnnotationItem ? target : getThreadAnnotation(target);
+      if (found) {
+        await copyAnnotationLink(context, found.annotation, found.projectPath);
+      }
+    }
+  );
+
+  // Deep links to annotations, e.g. pasted in chat
+  const uriHandler = vscode.window.registerUriHandler({
+    handleUri: uri => openAnnotationUri(uri)
+  });
+
+  const openInboxEntryCommand = vscode.commands.registerCommand(
+    'vscode-annotate.openInboxEntry',
+    async (item: InboxItem) => {
+      await revealAnnotation(item.annotation, item.projectPath);
+      await inboxProvider.markRead(item.annotation.id);
+    }
+  );
 
-export function deactivate() {
-  // Cleanup handled by subscriptions
+  const markInboxEntryReadCommand = vscode.commands.registerCommand(
+    'vscode-annotate.markInboxEntryRead',
+    async (item: InboxItem) => {
+      await inboxProvider.markRead(item.annotation.id);
+    }
+  );
+
+  const markAllInboxReadCommand = vscode.commands.registerCommand(
+    'vscode-annotate.markAllInboxRead',
+    async () => {
+      await inboxProvider.markAllRead();
+    }
+  );
+
+  const checkAnnotationHealthCommand = vscode.commands.registerCommand(
+    'vscode-annotate.checkAnnotationHealth',
+    async () => {
+      const count = await orphanProvider.check();
+      await vscode.commands.executeCommand('vscode-annotate.orphanedAnnotationsView.focus');
+      vscode.window.showInformationMessage(
+        count > 0 ? `${count} annotation(s) no longer point at their code` : 'All annotations point at their code'
+      );
+    }
+  );
+
+  const relocateOrphanCommand = vscode.commands.registerCommand(
+    'vscode-annotate.relocateAnnotation',
+    async (item: OrphanItem) => {
+      const document = await openProjectDocument(item.projectPath, item.annotation.filePath);
+      const line = document && await pickLine(document, item.suggestedLine ?? item.annotation.line);
+      if (!document || !line) {
+        return;
+      }
+      await moveOrphan(item, item.annotation.filePath, line, document,
+        `Relocate ${describeAnnotation(item.annotation.id, item.projectPath)} to line ${line}`);
+    }
+  );
+
+  const reattachOrphanCommand = vscode.commands.registerCommand(
+    'vscode-annotate.reattachAnnotation',
+    async (item: OrphanItem) => {
+      const files = await vscode.workspace.findFiles(new vscode.RelativePattern(item.projectPath, '**/*'));
+      const filePath = await vscode.window.showQuickPick(
+        files.map(uri => relativeAnnotationPath(item.projectPath, uri.fsPath)).sort(),
+        { placeHolder: `Reattach the annotation on ${item.annotation.filePath} to which file?` }
+      );
+      const document = filePath && await openProjectDocument(item.projectPath, filePath);
+      if (!filePath || !document) {
+        return;
+      }
+
+      // Start at the best match for the anchor, if there is a good one
+      const lines = splitLines(document.getText());
+      const match = item.annotation.anchor && locateAnchor(lines, item.annotation.anchor, item.annotation.line);
+      const line = await pickLine(document, match && match.confidence >= MIN_ANCHOR_CONFIDENCE ? match.line : 1);
+      if (!line) {
+        return;
+      }
+      await moveOrphan(item, filePath, line, document,
+        `Reattach ${describeAnnotation(item.annotation.id, item.projectPath)} to ${filePath}:${line}`);
+    }
+  );
+
+  const archiveCommand = vscode.commands.registerCommand(
+    'vscode-annotate.archiveAnnotation',
+    async (item: OrphanItem) => {
+      await setArchived(item.annotation.id, item.projectPath, true);
+    }
+  );
+
+  const unarchiveCommand = vscode.commands.registerCommand(
+    'vscode-annotate.unarchiveAnnotation',
+    async (item: OrphanItem) => {
+      await setArchived(item.annotation.id, item.projectPath, false);
+    }
+  );
+
+  const reconcileRenamesCommand = vscode.commands.registerCommand(
+    'vscode-annotate.reconcileRenames',
+    reconcileRenames
+  );
+
+  const setEncryptionKeyCommand = vscode.commands.registerCommand(
+    'vscode-annotate.setEncryptionKey',
+    setEncryptionKey
+  );
+
+  const rotateEncryptionKeyCommand = vscode.commands.registerCommand(
+    'vscode-annotate.rotateEncryptionKey',
+    rotateEncryptionKey
+  );
+
+  const filterByTagCommand = vscode.commands.registerCommand(
+    'vscode-annotate.filterByTag',
+    async () => {
+      const allTags = new Set<string>();
+      for (const projectPath of getProjectPaths()) {
+        for (const annotation of annotationStorage.getAllAnnotations(projectPath)) {
+          (annotation.tags || []).forEach(tag => allTags.add(tag));
+        }
+      }
+      if (allTags.size === 0) {
+        vscode.window.showInformationMessage('No annotations have tags yet');
+        return;
+      }
+
+      const choices = await vscode.window.showQuickPick(
+        [...allTags].sort().map(tag => ({ label: tag, picked: activeFilter.tags?.includes(tag) })),
+        { canPickMany: true, placeHolder: 'Show only annotations with these tags' }
+      );
+      if (choices) {
+        await applyFilter(context, { ...activeFilter, tags: choices.map(c => c.label) });
+      }
+    }
+  );
+
+  const filterBySeverityCommand = vscode.commands.registerCommand(
+    'vscode-annotate.filterBySeverity',
+    async () => {
+      const choices = await vscode.window.showQuickPick(
+        SEVERITIES.map(severity => ({ label: severity, picked: activeFilter.severities?.includes(severity) })),
+        { canPickMany: true, placeHolder: 'Show only annotations with these severities' }
+      );
+      if (choices) {
+        await applyFilter(context, { ...activeFilter, severities: choices.map(c => c.label as AnnotationSeverity) });
+      }
+    }
+  );
+
+  const filterByAuthorCommand = vscode.commands.registerCommand(
+    'vscode-annotate.filterByAuthor',
+    async () => {
+      const allAuthors = new Set<string>();
+      for (const projectPath of getProjectPaths()) {
+        for (const annotation of annotationStorage.getAllAnnotations(projectPath)) {
+          allAuthors.add(annotation.author);
+        }
+      }
+      if (allAuthors.size === 0) {
+        vscode.window.showInformationMessage('No annotations yet');
+        return;
+      }
+
+      const choices = await vscode.window.showQuickPick(
+        [...allAuthors].sort().map(author => ({ label: author, picked: activeFilter.authors?.includes(author) })),
+        { canPickMany: true, placeHolder: 'Show only annotations by these authors' }
+      );
+      if (choices) {
+        await applyFilter(context, { ...activeFilter, authors: choices.map(c => c.label) });
+      }
+    }
+  );
+
+  const filterByDateCommand = vscode.commands.registerCommand(
+    'vscode-annotate.filterByDate',
+    async () => {
+      const validateDate = (value: string) =>
+        value.trim() === '' || parseDate(value) !== undefined ? undefined : 'Enter a date as YYYY-MM-DD';
+
+      const since = await vscode.window.showInputBox({
+        prompt: 'Show annotations changed on or after (leave empty for no start date)',
+        placeHolder: 'YYYY-MM-DD',
+        value: activeFilter.since !== undefined ? formatDate(activeFilter.since) : '',
+        validateInput: validateDate
+      });
+      if (since === undefined) {
+        return;
+      }
+      const until = await vscode.window.showInputBox({
+        prompt: 'Show annotations changed on or before (leave empty for no end date)',
+        placeHolder: 'YYYY-MM-DD',
+        value: activeFilter.until !== undefined ? formatDate(activeFilter.until) : '',
+        validateInput: validateDate
+      });
+      if (until === undefined) {
+        return;
+      }
+
+      await applyFilter(context, {
+        ...activeFilter,
+        since: since.trim() ? parseDate(since) : undefined,
+        until: until.trim() ? parseDate(until, true) : undefined
+      });
+    }
+  );
+
+  const filterByFileCommand = vscode.commands.registerCommand(
+    'vscode-annotate.filterByFile',
+    async () => {
+      const input = await vscode.window.showInputBox({
+        prompt: 'Show annotations on files matching a glob (leave empty to clear)',
+        placeHolder: 'src/**/*.ts',
+        value: activeFilter.fileGlob || ''
+      });
+      if (input !== undefined) {
+        await applyFilter(context, { ...activeFilter, fileGlob: input.trim() || undefined });
+      }
+    }
+  );
+
+  const exportCommand = vscode.commands.registerCommand(
+    'vscode-annotate.exportAnnotations',
+    async () => {
+      await exportAnnotations(context);
+    }
+  );
+
+  const importCommand = vscode.commands.registerCommand(
+    'vscode-annotate.importAnnotations',
+    async () => {
+      await importAnnotations();
+    }
+  );
+
+  const clearFiltersCommand = vscode.commands.registerCommand(
+    'vscode-annotate.clearFilters',
+    async () => {
+      await applyFilter(context, {});
+    }
+  );
+
+  const setBranchModeCommand = vscode.commands.registerCommand(
+    'vscode-annotate.setBranchMode',
+    async () => {
+      const modes: { label: string; description: string; mode: BranchMode }[] = [
+        { label: 'All branches', description: 'Show every annotation', mode: 'all' },
+        { label: 'Current branch', description: 'Only annotations made on the checked out branch', mode: 'current' },
+        { label: 'Current and main branch', description: `Also annotations made on ${MAIN_BRANCHES.join(' or ')}`, mode: 'currentAndMain' }
+      ];
+      const choice = await vscode.window.showQuickPick(
+        modes.map(m => ({ ...m, picked: m.mode === branchMode })),
+        { placeHolder: 'Show annotations from which branches? Annotations without a branch are always shown' }
+      );
+      if (choice) {
+        await vscode.workspace.getConfiguration('vscode-annotate').update(
+          'branchMode', choice.mode, vscode.ConfigurationTarget.Workspace
+        );
+      }
+    }
+  );
+
+  const changeEditorSubscription = vscode.window.onDidChangeActiveTextEditor(
+    (editor) => {
+      if (editor) {
+        updateDecorationsForEditor(editor);
+      }
+    }
+  );
+
+  const openDocumentSubscription = vscode.workspace.onDidOpenTextDocument(
+    (document) => {
+      relocateAnnotationsForDocument(document);
+    }
+  );
+
+  const changeTextSubscription = vscode.workspace.onDidChangeTextDocument(
+    (event) => {
+      trackAnnotationPositions(event);
+      const editor = vscode.window.activeTextEditor;
+      if (editor && event.document === editor.document) {
+        updateDecorationsForEditor(editor);
+      }
+    }
+  );
+
+  const saveDocumentSubscription = vscode.workspace.onDidSaveTextDocument(
+    async (document) => {
+      await persistPendingPositions(document);
+      orphanProvider.refresh();
+    }
+  );
+
+  // Files created or deleted in VS Code can orphan annotations or bring
+  // them back
+  const createFilesSubscription = vscode.workspace.onDidCreateFiles(() => orphanProvider.refresh());
+  const deleteFilesSubscription = vscode.workspace.onDidDeleteFiles(() => orphanProvider.refresh());
+
+  const renameFilesSubscription = vscode.workspace.onDidRenameFiles(
+    async (event) => {
+      await followFileRenames(event.files);
+    }
+  );
+
+  const closeDocumentSubscription = vscode.workspace.onDidCloseTextDocument(
+    (document) => {
+      // Edits that were never saved must not move annotations
+      positionTracker.discard(document.uri.toString());
+    }
+  );
+
+  const configChangeSubscription = vscode.workspace.onDidChangeConfiguration(
+    async (event) => {
+      if (event.affectsConfiguration('vscode-annotate.repositoryPath')) {
+        const newRepoPath = vscode.workspace.getConfiguration('vscode-annotate').get<string>('repositoryPath');
+        if (newRepoPath) {
+          try {
+            await openRepositories(newRepoPath);
+            await loadAnnotationsForWorkspace();
+            vscode.window.showInformationMessage('Annotation repository updated');
+          } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update repository: ${error}`);
+          }
+        }
+      }
+      if (event.affectsConfiguration('vscode-annotate.rangeHighlightColor')) {
+        rangeHighlightDecoration.dispose();
+        rangeHighlightDecoration = createRangeHighlightDecoration();
+        refreshDecorations();
+      }
+      if (event.affectsConfiguration('vscode-annotate.annotationsEnabled')) {
+        annotationsEnabled = vscode.workspace.getConfiguration('vscode-annotate').get<boolean>('annotationsEnabled', true);
+        codeLensProvider.setEnabled(annotationsEnabled);
+        hoverProvider.setEnabled(annotationsEnabled);
+        refreshDecorations();
+      }
+      if (event.affectsConfiguration('vscode-annotate.autoSync') ||
+          event.affectsConfiguration('vscode-annotate.autoSyncInterval')) {
+        configureAutoSync();
+      }
+      if (event.affectsConfiguration('vscode-annotate.branchMode')) {
+        branchMode = vscode.workspace.getConfiguration('vscode-annotate').get<BranchMode>('branchMode', 'all');
+        treeProvider.refresh();
+        orphanProvider.refresh();
+        refreshDecorations();
+      }
+      if (event.affectsConfiguration('vscode-annotate.additionalRepositories') && gitService.getRepoPath()) {
+        try {
+          await openAdditionalRepositories();
+          await loadAnnotationsForWorkspace();
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to update repositories: ${error}`);
+        }
+      }
+      if (event.affectsConfiguration('vscode-annotate.targetRepository')) {
+        annotationStorage.setTargetRepository(
+          vscode.workspace.getConfiguration('vscode-annotate').get<string>('targetRepository') || undefined
+        );
+      }
+      if (event.affectsConfiguration('vscode-annotate.encryptAnnotations') ||
+          event.affectsConfiguration('vscode-annotate.encryptFilePaths') ||
+          event.affectsConfiguration('vscode-annotate.encryptionKeyFile')) {
+        await configureEncryption();
+        await loadAnnotationsForWorkspace();
+      }
+      if (event.affectsConfiguration('vscode-annotate.commitDelay')) {
+        const commitDelay = vscode.workspace.getConfiguration('vscode-annotate').get<number>('commitDelay', 5) * 1000;
+        annotationStorage.getRepositories().forEach(repository => repository.git.setCommitDelay(commitDelay));
+      }
+      if (event.affectsConfiguration('vscode-annotate.closedAnnotations')) {
+        closedDisplay = vscode.workspace.getConfiguration('vscode-annotate')
+          .get<ClosedAnnotationDisplay>('closedAnnotations', 'dimmed');
+        codeLensProvider.setClosedDisplay(closedDisplay);
+        refreshDecorations();
+      }
+    }
+  );
+
+  const branchChangeSubscription = branchTracker.onDidChangeBranch(() => {
+    treeProvider.refresh();
+    orphanProvider.refresh();
+    refreshDecorations();
+  });
+
+  const workspaceFoldersChangeSubscription = vscode.workspace.onDidChangeWorkspaceFolders(
+    async (event) => {
+      for (const folder of event.removed) {
+        annotationStorage.unloadProject(folder.uri.fsPath);
+        branchTracker.untrack(folder.uri.fsPath);
+      }
+      await loadAnnotationsForWorkspace();
+      refreshDecorations();
+    }
+  );
+
+  context.subscriptions.push(
+    toggleCommand,
+    addAnnotationCommand,
+    configureRepoCommand,
+    syncCommand,
+    migrateStorageCommand,
+    revealAnnotationCommand,
+    editAnnotationCommand,
+    deleteAnnotationCommand,
+    showHistoryCommand,
+    restoreDeletedCommand,
+    historyProviderRegistration,
+    groupAnnotationsCommand,
+    refreshViewCommand,
+    searchCommand,
+    clearSearchCommand,
+    setSeverityCommand,
+    editTagsCommand,
+    setCategoryCommand,
+    changeStatusCommand,
+    filterByTagCommand,
+    filterBySeverityCommand,
+    filterByAuthorCommand,
+    filterByDateCommand,
+    filterByFileCommand,
+    clearFiltersCommand,
+    setBranchModeCommand,
+    selectTargetRepositoryCommand,
+    makePrivateCommand,
+    shareCommand,
+    openAnnotationLinkCommand,
+    copyAnnotationLinkCommand,
+    uriHandler,
+    openInboxEntryCommand,
+    markInboxEntryReadCommand,
+    markAllInboxReadCommand,
+    checkAnnotationHealthCommand,
+    relocateOrphanCommand,
+    reattachOrphanCommand,
+    archiveCommand,
+    unarchiveCommand,
+    reconcileRenamesCommand,
+    setEncryptionKeyCommand,
+    rotateEncryptionKeyCommand,
+    exportCommand,
+    importCommand,
+    treeView,
+    orphanView,
+    orphanProvider,
+    orphanChangeSubscription,
+    inboxView,
+    inboxProvider,
+    inboxChangeSubscription,
+    syncSubscription,
+    storageChangeSubscription,
+    codeLensDisposable,
+    hoverDisposable,
+    changeEditorSubscription,
+    openDocumentSubscription,
+    changeTextSubscription,
+    saveDocumentSubscription,
+    closeDocumentSubscription,
+    renameFilesSubscription,
+    createFilesSubscription,
+    deleteFilesSubscription,
+    configChangeSubscription,
+    workspaceFoldersChangeSubscription,
+    branchChangeSubscription,
+    branchTracker,
+    commentController,
+    { dispose: () => rangeHighlightDecoration.dispose() },
+    syncManager
+  );
+
+  if (vscode.window.activeTextEditor) {
+    updateDecorationsForEditor(vscode.window.activeTextEditor);
+  }
+}
+
+async function deleteAnnotation(annotationId: string, projectPath: string): Promise<void> {
+  await annotationStorage.removeAnnotation(annotationId, projectPath);
+  await annotationStorage.commitChanges(
+    projectPath,
+    `Remove annotation ${annotationId}`
+  );
+  refreshDecorations();
+}
+
+/**
+ * Open an annotation's file at its line and expand its comment thread
+ */
+async function revealAnnotation(annotation: Annotation, projectPath: string): Promise<void> {
+  const uri = vscode.Uri.file(path.join(projectPath, annotation.filePath));
+  const line = Math.max(0, annotation.line - 1);
+
+  commentController.expandThread(annotation.id);
+  try {
+    const editor = await vscode.window.showTextDocument(uri, {
+      selection: new vscode.Range(line, 0, line, 0)
+    });
+    await updateDecorationsForEditor(editor);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to open ${annotation.filePath}: ${error}`);
+  }
+}
+
+/**
+ * Look up the annotation shown in a comment thread
+ */
+function getThreadAnnotation(thread: vscode.CommentThread): { annotation: Annotation; projectPath: string } | undefined {
+  const annotationId = commentController.getAnnotationIdForThread(thread);
+  const projectPath = annotationId && annotationStorage.getProjectPathForAnnotation(annotationId);
+  const annotation = projectPath && annotationStorage.getAnnotationById(annotationId, projectPath);
+  if (!annotationId || !projectPath || !annotation) {
+    vscode.window.showErrorMessage('Save the annotation before changing it');
+    return undefined;
+  }
+  return { annotation, projectPath };
+}
+
+async function classifyAnnotation(
+  annotation: Annotation,
+  projectPath: string,
+  changes: Partial<Pick<Annotation, 'tags' | 'severity' | 'category'>>,
+  message: string
+): Promise<void> {
+  try {
+    await annotationStorage.updateClassification(annotation.id, projectPath, changes);
+    await annotationStorage.commitChanges(projectPath, message);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to update annotation: ${error}`);
+  }
+  refreshDecorations();
+}
+
+/**
+ * Bring back a past version of an annotation and commit it
+ */
+async function restoreAnnotation(annotation: Annotation, projectPath: string, source: string): Promise<void> {
+  try {
+    await annotationStorage.restoreAnnotation(annotation, projectPath);
+    await annotationStorage.commitChanges(
+      projectPath,
+      `Restore ${describeAnnotation(annotation.id, projectPath)} (${source})`
+    );
+    vscode.window.showInformationMessage('Annotation restored');
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to restore annotation: ${error}`);
+  }
+  refreshDecorations();
+}
+
+/**
+ * Repository an annotation came from, once annotations from several
+ * repositories are layered and need telling apart
+ */
+function getAnnotationSource(annotation: Annotation): AnnotationRepository | undefined {
+  if (annotationStorage.getRepositories().length < 2) {
+    return undefined;
+  }
+  const projectPath = annotationStorage.getProjectPathForAnnotation(annotation.id);
+  return projectPath ? annotationStorage.getRepositoryForAnnotation(annotation.id, projectPath) : undefined;
+}
+
+/**
+ * Whether an annotation belongs to the branch mode's branches
+ */
+function isInScope(annotation: Annotation, projectPath: string): boolean {
+  return !isArchived(annotation) && isOnVisibleBranch(annotation, projectPath);
+}
+
+/**
+ * Whether an annotation was made on a branch selected by the branch mode
+ */
+function isOnVisibleBranch(annotation: Annotation, projectPath: string): boolean {
+  return matchesBranchMode(annotation, branchMode, branchTracker.getBranch(projectPath));
+}
+
+/**
+ * Make a filter active in the editor and the Annotations view and remember it
+ */
+async function applyFilter(context: vscode.ExtensionContext, filter: AnnotationFilter): Promise<void> {
+  activeFilter = filter;
+  treeProvider.setFilter(filter);
+  updateTreeViewMessage();
+  await context.workspaceState.update('annotationFilter', filter);
+  await vscode.commands.executeCommand('setContext', 'vscode-annotate.filterActive', isFilterActive(filter));
+  refreshDecorations();
+}
+
+/**
+ * Explain in the Annotations view why annotations may be missing
+ */
+function updateTreeViewMessage(): void {
+  const parts: string[] = [];
+  const query = treeProvider.getSearchQuery();
+  if (query) {
+    parts.push(`matching "${query}"`);
+  }
+  if (isFilterActive(activeFilter)) {
+    parts.push(`filtered by ${describeFilter(activeFilter)}`);
+  }
+  treeView.message = parts.length > 0 ? `Annotations ${parts.join(', ')}` : undefined;
+}
+
+/**
+ * Move an annotation between the local private store and the annotation
+ * repository
+ */
+async function setVisibility(annotationId: string, projectPath: string, visibility: AnnotationVisibility): Promise<void> {
+  const description = describeAnnotation(annotationId, projectPath);
+  try {
+    await annotationStorage.setVisibility(annotationId, projectPath, visibility);
+    await annotationStorage.commitChanges(
+      projectPath,
+      visibility === 'private' ? `Make ${description} private` : `Share ${description}`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to change annotation visibility: ${error}`);
+  }
+  refreshDecorations();
+}
+
+/**
+ * Move annotations along with files and folders renamed in VS Code, with one
+ * commit per project. Moves between workspace folders aren't followed.
+ */
+async function followFileRenames(files: readonly { oldUri: vscode.Uri; newUri: vscode.Uri }[]): Promise<void> {
+  const renamesByProject = new Map<string, FileRename[]>();
+  for (const { oldUri, newUri } of files) {
+    const projectPath = getProjectPathForUri(oldUri);
+    if (!projectPath || projectPath !== getProjectPathForUri(newUri)) {
+      continue;
+    }
+    const renames = renamesByProject.get(projectPath) || [];
+    renames.push({
+      oldPath: relativeAnnotationPath(projectPath, oldUri.fsPath),
+      newPath: relativeAnnotationPath(projectPath, newUri.fsPath)
+    });
+    renamesByProject.set(projectPath, renames);
+  }
+
+  for (const [projectPath, renames] of renamesByProject) {
+    try {
+      const moved = await annotationStorage.renameFiles(projectPath, renames);
+      if (moved > 0) {
+        await annotationStorage.commitChanges(
+          projectPath,
+          renames.length === 1
+            ? `Follow rename of ${renames[0].oldPath} to ${renames[0].newPath}`
+            : `Follow ${renames.length} renamed files`
+        );
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update annotations of renamed files: ${error}`);
+    }
+  }
+
+  // Threads of the old paths are left behind otherwise
+  commentController.clearAllThreads();
+  refreshDecorations();
+}
+
+/**
+ * Repair annotations on files renamed outside VS Code, e.g. with `git mv`,
+ * using the renames git detects in the source repository
+ */
+async function reconcileRenames(): Promise<void> {
+  const projectPath = await pickProjectPath('Select the workspace folder whose renamed files should be reconciled');
+  if (!projectPath) {
+    return;
+  }
+
+  let history: FileRename[];
+  try {
+    history = await readSourceRenames(projectPath);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to read renames from the source repository: ${error}`);
+    return;
+  }
+
+  const renames: FileRename[] = [];
+  let missing = 0;
+  const filePaths = new Set(annotationStorage.getAllAnnotations(projectPath).map(a => a.filePath));
+  for (const filePath of filePaths) {
+    if (await fileExists(path.join(projectPath, filePath))) {
+      continue;
+    }
+    const newPath = followRenames(filePath, history);
+    if (newPath && await fileExists(path.join(projectPath, newPath))) {
+      renames.push({ oldPath: filePath, newPath });
+    } else {
+      missing++;
+    }
+  }
+
+  const notFound = missing > 0 ? ` ${missing} annotated file(s) no longer exist and weren't renamed.` : '';
+  if (renames.length === 0) {
+    vscode.window.showInformationMessage(`No annotations on renamed files found.${notFound}`);
+    return;
+  }
+
+  try {
+    const moved = await annotationStorage.renameFiles(projectPath, renames);
+    await annotationStorage.commitChanges(projectPath, `Reconcile ${renames.length} renamed file(s)`);
+    vscode.window.showInformationMessage(`Moved ${moved} annotation(s) to renamed files.${notFound}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to reconcile renamed files: ${error}`);
+  }
+  refreshDecorations();
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Archive an annotation, hiding it everywhere but the Orphaned Annotations
+ * view, or bring it back
+ */
+async function setArchived(annotationId: string, projectPath: string, archived: boolean): Promise<void> {
+  const description = describeAnnotation(annotationId, projectPath);
+  try {
+    await annotationStorage.setArchived(annotationId, projectPath, archived);
+    await annotationStorage.commitChanges(
+      projectPath,
+      archived ? `Archive ${description}` : `Unarchive ${description}`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to ${archived ? 'archive' : 'unarchive'} annotation: ${error}`);
+  }
+  refreshDecorations();
+}
+
+/**
+ * Move an orphaned annotation to a line of an open document
+ */
+async function moveOrphan(
+  item: OrphanItem,
+  filePath: string,
+  line: number,
+  document: vscode.TextDocument,
+  message: string
+): Promise<void> {
+  try {
+    await annotationStorage.moveAnnotation(
+      item.annotation.id, item.projectPath, filePath, line, splitLines(document.getText())
+    );
+    await annotationStorage.commitChanges(item.projectPath, message);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to move annotation: ${error}`);
+  }
+  refreshDecorations();
+}
+
+async function openProjectDocument(projectPath: string, filePath: string): Promise<vscode.TextDocument | undefined> {
+  try {
+    return await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(projectPath, filePath)));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to open ${filePath}: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Show a document at a suggested line and ask which 1-indexed line to use
+ */
+async function pickLine(document: vscode.TextDocument, suggestedLine: number): Promise<number | undefined> {
+  const line = Math.min(Math.max(suggestedLine, 1), document.lineCount);
+  await vscode.window.showTextDocument(document, {
+    selection: new vscode.Range(line - 1, 0, line - 1, 0),
+    preserveFocus: true
+  });
+  const value = await vscode.window.showInputBox({
+    prompt: `Line to attach the annotation to (1-${document.lineCount})`,
+    value: `${line}`,
+    validateInput: text => {
+      const number = Number(text);
+      return Number.isInteger(number) && number >= 1 && number <= document.lineCount
+        ? null
+        : `Enter a line number between 1 and ${document.lineCount}`;
+    }
+  });
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * Current lines of a file, preferring unsaved content of open documents;
+ * undefined if the file doesn't exist
+ */
+async function readFileLines(filePath: string): Promise<string[] | undefined> {
+  const document = vscode.workspace.textDocuments.find(d => d.uri.scheme === 'file' && d.uri.fsPath === filePath);
+  if (document) {
+    return splitLines(document.getText());
+  }
+  try {
+    return splitLines(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Render annotation text as Markdown, with `[[references]]` turned into
+ * links to the annotations and locations they refer to
+ */
+function renderAnnotationMarkdown(text: string, annotation: Annotation): vscode.MarkdownString {
+  const projectPath = annotationStorage.getProjectPathForAnnotation(annotation.id);
+  const markdown = new vscode.MarkdownString(renderLinks(text, (label, target) => {
+    const linked = 'annotationId' in target ? findAnnotation(target.annotationId) : undefined;
+    const title = linked ? truncateText(linked.annotation.text, 40) : label;
+    const args = encodeURIComponent(JSON.stringify([projectPath, target]));
+    return `[${escapeLinkLabel(title)}](command:vscode-annotate.openAnnotationLink?${args})`;
+  }));
+  markdown.isTrusted = { enabledCommands: ['vscode-annotate.openAnnotationLink'] };
+  return markdown;
+}
+
+/**
+ * Hover of an annotation: who wrote it and when, then its text and replies
+ */
+function renderAnnotationHover(annotation: Annotation): vscode.MarkdownString {
+  const heading = (kind: string, author: string, timestamp: number) =>
+    `**${kind} by ${escapeLinkLabel(author)}** · ${new Date(timestamp).toLocaleString()}`;
+  const parts = [
+    heading(isPrivate(annotation) ? 'Private annotation' : 'Annotation', annotation.author, annotation.timestamp),
+    annotation.text,
+    ...(annotation.replies || []).flatMap(reply => ['---', heading('Reply', reply.author, reply.timestamp), reply.text])
+  ];
+  return renderAnnotationMarkdown(parts.join('\n\n'), annotation);
+}
+
+/**
+ * Look up an annotation by ID in any open project
+ */
+function findAnnotation(annotationId: string): { annotation: Annotation; projectPath: string } | undefined {
+  const projectPath = annotationStorage.getProjectPathForAnnotation(annotationId);
+  const annotation = projectPath && annotationStorage.getAnnotationById(annotationId, projectPath);
+  return projectPath && annotation ? { annotation, projectPath } : undefined;
+}
+
+/**
+ * Follow a link in annotation text. File locations are relative to the
+ * project of the annotation holding the link.
+ */
+async function openAnnotationLink(projectPath: string | undefined, target: LinkTarget): Promise<void> {
+  if ('annotationId' in target) {
+    const found = findAnnotation(target.annotationId);
+    if (!found) {
+      vscode.window.showErrorMessage(`Annotation ${target.annotationId} not found in the open workspace`);
+      return;
+    }
+    await revealAnnotation(found.annotation, found.projectPath);
+    return;
+  }
+
+  const basePath = projectPath ?? getProjectPaths()[0];
+  if (!basePath) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return;
+  }
+  await openLocation(basePath, target.filePath, target.line, target.endLine);
+}
+
+/**
+ * Open a 1-indexed line range of a project file; returns whether it opened.
+ * Files outside the project are refused.
+ */
+async function openLocation(projectPath: string, filePath: string, line: number, endLine = line): Promise<boolean> {
+  const absolutePath = resolveLinkedFile(projectPath, filePath);
+  if (!absolutePath) {
+    vscode.window.showErrorMessage(`${filePath} is outside the project`);
+    return false;
+  }
+  try {
+    await vscode.window.showTextDocument(vscode.Uri.file(absolutePath), {
+      selection: new vscode.Range(line - 1, 0, endLine - 1, 0)
+    });
+    return true;
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to open ${filePath}: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Open the annotation a deep link points to. If it isn't loaded, e.g. because
+ * it hasn't been synced yet, its recorded location is opened instead.
+ */
+async function openAnnotationUri(uri: vscode.Uri): Promise<void> {
+  if (uri.path !== ANNOTATION_URI_PATH) {
+    vscode.window.showErrorMessage(`Unsupported annotation link: ${uri.toString(true)}`);
+    return;
+  }
+
+  const params = parseAnnotationUriQuery(uri.query);
+  const found = params.annotationId ? findAnnotation(params.annotationId) : undefined;
+  if (found) {
+    await revealAnnotation(found.annotation, found.projectPath);
+    return;
+  }
+
+  const projectPath = getProjectPaths().find(p => annotationStorage.getProjectIdentity(p).key === params.project);
+  if (!projectPath || !params.filePath) {
+    vscode.window.showErrorMessage('The linked annotation is not part of a project open in this window');
+    return;
+  }
+  if (await openLocation(projectPath, params.filePath, params.line ?? 1)) {
+    vscode.window.showInformationMessage('The linked annotation is not loaded; sync to see it');
+  }
+}
+
+/**
+ * Copy a deep link to an annotation for sharing outside VS Code, or a
+ * reference for linking to it from another annotation
+ */
+async function copyAnnotationLink(context: vscode.ExtensionContext, annotation: Annotation, projectPath: string): Promise<void> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: 'Link', detail: 'Opens the annotation in VS Code, e.g. from chat', reference: false },
+      { label: 'Reference', detail: `[[${annotation.id}]] links to the annotation from another annotation`, reference: true }
+    ],
+    { placeHolder: 'Copy a link to this annotation' }
+  );
+  if (!choice) {
+    return;
+  }
+
+  const text = choice.reference
+    ? `[[${annotation.id}]]`
+    : vscode.Uri.from({
+      scheme: vscode.env.uriScheme,
+      authority: context.extension.id,
+      path: ANNOTATION_URI_PATH,
+      query: createAnnotationUriQuery(
+        annotation.id,
+        annotationStorage.getProjectIdentity(projectPath).key,
+        annotation.filePath,
+        annotation.line
+      )
+    }).toString();
+  await vscode.env.clipboard.writeText(text);
+  vscode.window.showInformationMessage(`Annotation ${choice.label.toLowerCase()} copied to the clipboard`);
+}
+
+/**
+ * Whether an annotation or its replies @mention the git user
+ */
+function mentionsCurrentUser(annotation: Annotation): boolean {
+  const user = inboxProvider.getUser();
+  return user !== undefined && annotationMentionsUser(annotation, user);
+}
+
+/**
+ * Tell the user what teammates changed in a sync
+ */
+async function notifyAboutChanges(entries: InboxEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const mentions = entries.filter(entry => entry.reason === 'mentioned').length;
+  const choice = await vscode.window.showInformationMessage(
+    `${entries.length} annotation(s) added or changed by teammates` +
+    (mentions > 0 ? `, ${mentions} mentioning you` : ''),
+    'Show Inbox'
+  );
+  if (choice === 'Show Inbox') {
+    await vscode.commands.executeCommand('vscode-annotate.inboxView.focus');
+  }
+}
+
+/**
+ * Describe an annotation by location for commit messages
+ */
+function describeAnnotation(annotationId: string, projectPath: string): string {
+  const annotation = annotationStorage.getAnnotationById(annotationId, projectPath);
+  return annotation
+    ? `annotation on ${annotation.filePath}:${annotation.line}`
+    : `annotation ${annotationId}`;
+}
+
+/**
+ * Each workspace folder is its own annotation project
+ */
+function getProjectPaths(): string[] {
+  return (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath);
+}
+
+/**
+ * Resolve the project (workspace folder) that owns a document
+ */
+function getProjectPathForUri(uri: vscode.Uri): string | undefined {
+  if (uri.scheme !== 'file') {
+    return undefined;
+  }
+  return vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+}
+
+async function loadAnnotationsForWorkspace(): Promise<void> {
+  for (const projectPath of getProjectPaths()) {
+    await branchTracker.track(projectPath);
+    await annotationStorage.loadAnnotations(projectPath);
+  }
+  refreshDecorations();
+}
+
+/**
+ * Open the primary annotation repository and the additional ones layered
+ * over it
+ */
+async function openRepositories(repoPath: string): Promise<void> {
+  await gitService.initialize(repoPath);
+  await openAdditionalRepositories();
+  inboxProvider.setUser(await gitService.getGitUserInfo());
+}
+
+/**
+ * (Re)open the repositories of the `additionalRepositories` setting and watch
+ * every repository for changes made outside this window. Repositories that
+ * can't be opened are reported and left out.
+ */
+async function openAdditionalRepositories(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('vscode-annotate');
+  for (const repository of annotationStorage.getRepositories().slice(1)) {
+    await repository.git.flush();
+    repository.git.dispose();
+  }
+
+  const repositories: AnnotationRepository[] = [];
+  const configs = resolveRepositoryConfigs(
+    gitService.getRepoPath() as string,
+    config.get<RepositoryConfig[]>('additionalRepositories', [])
+  );
+  for (const repoConfig of configs) {
+    const git = new GitService();
+    git.setCommitDelay(config.get<number>('commitDelay', 5) * 1000);
+    try {
+      await git.initialize(repoConfig.path, repoConfig.readOnly);
+      repositories.push({ name: repoConfig.name, git, readOnly: repoConfig.readOnly });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open annotation repository ${repoConfig.name}: ${error}`);
+    }
+  }
+
+  annotationStorage.setAdditionalRepositories(repositories);
+  syncManager.watch();
+}
+
+async function configureRepository(): Promise<void> {
+  const repoPath = await vscode.window.showInputBox({
+    prompt: 'Enter the path to your annotations git repository',
+    placeHolder: '/path/to/annotations-repo',
+    validateInput: (text) => {
+      return text.trim().length === 0 ? 'Path cannot be empty' : null;
+    }
+  });
+
+  if (!repoPath) {
+    return;
+  }
+
+  try {
+    await openRepositories(repoPath);
+
+    await vscode.workspace.getConfiguration('vscode-annotate').update(
+      'repositoryPath',
+      repoPath,
+      vscode.ConfigurationTarget.Global
+    );
+
+    await loadAnnotationsForWorkspace();
+
+    vscode.window.showInformationMessage(
+      'Annotation repository configured successfully'
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to configure repository: ${error}`);
+  }
+}
+
+/**
+ * Start or stop background sync according to the settings
+ */
+function configureAutoSync(): void {
+  const config = vscode.workspace.getConfiguration('vscode-annotate');
+  syncManager.setInterval(config.get<boolean>('autoSync', false) ? config.get<number>('autoSyncInterval', 5) : 0);
+}
+
+async function syncAnnotations(): Promise<void> {
+  const projectPaths = getProjectPaths();
+  if (projectPaths.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return;
+  }
+
+  try {
+    await syncManager.sync(resolveAnnotationConflicts);
+    vscode.window.showInformationMessage('Annotations synced successfully');
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to sync annotations: ${error}`);
+  }
+}
+
+/**
+ * Ask which project to act on when more than one workspace folder is open
+ */
+async function pickProjectPath(placeHolder: string): Promise<string | undefined> {
+  const projectPaths = getProjectPaths();
+  if (projectPaths.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return undefined;
+  }
+  if (projectPaths.length === 1) {
+    return projectPaths[0];
+  }
+
+  const folder = await vscode.window.showWorkspaceFolderPick({ placeHolder });
+  return folder?.uri.fsPath;
+}
+
+/**
+ * Set up encryption from the settings and the stored keys. Stored keys are
+ * used to decrypt even when encryption is off, so that turning it off
+ * decrypts the annotations on their next save.
+ */
+async function configureEncryption(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('vscode-annotate');
+  const enabled = config.get<boolean>('encryptAnnotations', false);
+
+  let cipher: AnnotationCipher | undefined;
+  try {
+    const keys = await keyStore.getKeys();
+    if (keys.length > 0) {
+      cipher = new AnnotationCipher(keys[0], keys.slice(1), config.get<boolean>('encryptFilePaths', false));
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to read encryption keys from ${keyStore.describeLocation()}: ${error}`);
+  }
+  annotationStorage.setEncryption(cipher, enabled);
+
+  if (enabled && !cipher) {
+    const choice = await vscode.window.showWarningMessage(
+      'Annotation encryption is enabled, but no encryption key is set. Shared annotations cannot be saved until one is.',
+      'Set Key'
+    );
+    if (choice === 'Set Key') {
+      await setEncryptionKey();
+    }
+  }
+}
+
+/**
+ * Store the team's encryption key, either a new one or one entered by the user
+ */
+async function setEncryptionKey(): Promise<void> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: 'Enter Team Key', detail: 'Use the key your team already encrypts annotations with', generate: false },
+      { label: 'Generate New Key', detail: 'Start encrypting with a new key and share it with your team', generate: true }
+    ],
+    { placeHolder: `Set the annotation encryption key, stored in ${keyStore.describeLocation()}` }
+  );
+  if (!choice) {
+    return;
+  }
+
+  const key = choice.generate ? generateKey() : await vscode.window.showInputBox({
+    prompt: 'Enter the base64 encoded encryption key',
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: text => {
+      try {
+        parseKey(text);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+    }
+  });
+  if (!key) {
+    return;
+  }
+
+  try {
+    await keyStore.setKey(key);
+    await configureEncryption();
+    await loadAnnotationsForWorkspace();
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to set encryption key: ${error}`);
+    return;
+  }
+
+  if (choice.generate) {
+    await offerToCopyKey(key, 'New encryption key set. Share it with your team through a secure channel.');
+  } else {
+    vscode.window.showInformationMessage('Encryption key set');
+  }
+}
+
+/**
+ * Encrypt a project's annotations with a new key. The old key is kept so
+ * that other projects and the repository history stay readable.
+ */
+async function rotateEncryptionKey(): Promise<void> {
+  if (!vscode.workspace.getConfiguration('vscode-annotate').get<boolean>('encryptAnnotations', false)) {
+    vscode.window.showInformationMessage('Annotation encryption is not enabled');
+    return;
+  }
+  const projectPath = await pickProjectPath('Select the workspace folder whose annotations should be re-encrypted');
+  if (!projectPath) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Re-encrypt the annotations of ${path.basename(projectPath)} with a new key? ` +
+    'Everyone sharing them needs the new key to read them.',
+    { modal: true },
+    'Rotate Key'
+  );
+  if (confirm !== 'Rotate Key') {
+    return;
+  }
+
+  const key = generateKey();
+  try {
+    await keyStore.setKey(key);
+    await configureEncryption();
+    await annotationStorage.saveAnnotations(projectPath);
+    await annotationStorage.commitChanges(projectPath, `Re-encrypt annotations of ${path.basename(projectPath)}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to rotate encryption key: ${error}`);
+    return;
+  }
+  await offerToCopyKey(key, 'Annotations re-encrypted with a new key. Share it with your team through a secure channel.');
+}
+
+async function offerToCopyKey(key: string, message: string): Promise<void> {
+  const choice = await vscode.window.showInformationMessage(message, 'Copy Key');
+  if (choice === 'Copy Key') {
+    await vscode.env.clipboard.writeText(key);
+  }
+}
+
+async function migrateStorage(): Promise<void> {
+  const projectPath = await pickProjectPath('Select the workspace folder whose annotations should be migrated');
+  if (!projectPath) {
+    return;
+  }
+
+  try {
+    const migrated = await annotationStorage.migrateToShardedFormat(projectPath);
+    if (!migrated) {
+      vscode.window.showInformationMessage('Annotations already use the sharded storage format');
+      return;
+    }
+
+    await annotationStorage.commitChanges(
+      projectPath,
+      `Migrate annotations of ${path.basename(projectPath)} to sharded storage format`
+    );
+    vscode.window.showInformationMessage('Annotations migrated to the sharded storage format');
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to migrate annotations: ${error}`);
+  }
+}
+
+const EXPORT_FORMATS: { label: string; format: ExportFormat; extension: string; filterName: string }[] = [
+  { label: 'Markdown', format: 'markdown', extension: 'md', filterName: 'Markdown' },
+  { label: 'HTML', format: 'html', extension: 'html', filterName: 'HTML' },
+  { label: 'SARIF 2.1.0', format: 'sarif', extension: 'sarif', filterName: 'SARIF' }
+];
+
+/**
+ * Write a report of a project's annotations, honouring the active filter
+ */
+async function exportAnnotations(context: vscode.ExtensionContext): Promise<void> {
+  const projectPath = await pickProjectPath('Select the workspace folder whose annotations should be exported');
+  if (!projectPath) {
+    return;
+  }
+
+  const annotations = annotationStorage.getAllAnnotations(projectPath)
+    .filter(a => !isArchived(a) && matchesFilter(a, activeFilter));
+  if (annotations.length === 0) {
+    vscode.window.showInformationMessage(
+      isFilterActive(activeFilter) ? 'No annotations match the active filters' : 'No annotations to export'
+    );
+    return;
+  }
+
+  const choice = await vscode.window.showQuickPick(EXPORT_FORMATS, { placeHolder: 'Export format' });
+  if (!choice) {
+    return;
+  }
+
+  const projectName = path.basename(projectPath);
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(projectPath, `${projectName}-annotations.${choice.extension}`)),
+    filters: { [choice.filterName]: [choice.extension] }
+  });
+  if (!target) {
+    return;
+  }
+
+  try {
+    const reportDir = path.dirname(target.fsPath);
+    const fileLines = new Map<string, string[] | undefined>();
+    const entries: ExportEntry[] = [];
+    for (const annotation of annotations) {
+      if (!fileLines.has(annotation.filePath)) {
+        const content = await fs.readFile(path.join(projectPath, annotation.filePath), 'utf-8').catch(() => undefined);
+        fileLines.set(annotation.filePath, content === undefined ? undefined : splitLines(content));
+      }
+      entries.push({
+        annotation,
+        snippet: extractSnippet(fileLines.get(annotation.filePath), annotation),
+        link: createLink(reportDir, projectPath, annotation)
+      });
+    }
+
+    const report = renderReport(choice.format, entries, {
+      project: projectName,
+      filter: describeFilter(activeFilter),
+      generatedAt: Date.now(),
+      toolVersion: context.extension.packageJSON.version,
+      projectPath
+    });
+    await fs.writeFile(target.fsPath, report, 'utf-8');
+
+    const action = await vscode.window.showInformationMessage(
+      `Exported ${entries.length} annotation(s) to ${path.basename(target.fsPath)}`,
+      'Open'
+    );
+    if (action === 'Open') {
+      await vscode.window.showTextDocument(target);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to export annotations: ${error}`);
+  }
+}
+
+const IMPORT_FORMAT_NAMES: Record<ImportFormat, string> = {
+  sarif: 'SARIF',
+  weaudit: 'weAudit',
+  codeAnnotation: 'Code Annotation'
+};
+
+/**
+ * Import annotations from another tool's file after letting the user pick
+ * which entries to keep; everything chosen is committed at once
+ */
+async function importAnnotations(): Promise<void> {
+  const projectPath = await pickProjectPath('Select the workspace folder to import annotations into');
+  if (!projectPath) {
+    return;
+  }
+
+  const annotationFiles = 'Annotation files';
+  const allFiles = 'All files';
+  const files = await vscode.window.showOpenDialog({
+    defaultUri: vscode.Uri.file(path.join(projectPath, '.vscode')),
+    canSelectMany: false,
+    openLabel: 'Import',
+    filters: {
+      [annotationFiles]: ['sarif', 'json', 'weaudit'],
+      [allFiles]: ['*']
+    }
+  });
+  if (!files || files.length === 0) {
+    return;
+  }
+  const source = files[0].fsPath;
+
+  try {
+    const data = JSON.parse(await fs.readFile(source, 'utf-8'));
+    const format = detectImportFormat(source, data);
+    if (!format) {
+      vscode.window.showErrorMessage(`${path.basename(source)} is not a SARIF, weAudit or Code Annotation file`);
+      return;
+    }
+
+    const userInfo = await gitService.getGitUserInfo();
+    const result = createImportedAnnotations(
+      parseImportFile(format, data),
+      annotationStorage.getAllAnnotations(projectPath),
+      {
+        projectPath,
+        project: annotationStorage.getProjectIdentity(projectPath).key,
+        defaultAuthor: userInfo.name,
+        now: Date.now()
+      }
+    );
+
+    const skipped = [
+      ...(result.duplicates > 0 ? [`${result.duplicates} duplicate(s)`] : []),
+      ...(result.outsideProject > 0 ? [`${result.outsideProject} outside the project`] : []),
+      ...(result.invalidLocation > 0 ? [`${result.invalidLocation} with an invalid location`] : [])
+    ];
+    if (result.annotations.length === 0) {
+      vscode.window.showInformationMessage(
+        `Nothing to import from ${path.basename(source)}${skipped.length > 0 ? ` (skipped ${skipped.join(', ')})` : ''}`
+      );
+      return;
+    }
+
+    const choices = await vscode.window.showQuickPick(
+      result.annotations.map(annotation => ({
+        label: truncateText(annotation.text, 80),
+        description: annotation.author,
+        detail: `${annotation.filePath}:${annotation.line}`,
+        picked: true,
+        annotation
+      })),
+      {
+        canPickMany: true,
+        matchOnDetail: true,
+        placeHolder: `Choose the ${IMPORT_FORMAT_NAMES[format]} entries to import` +
+          (skipped.length > 0 ? ` (skipped ${skipped.join(', ')})` : '')
+      }
+    );
+    if (!choices || choices.length === 0) {
+      return;
+    }
+
+    const annotations = choices.map(choice => choice.annotation);
+    await anchorImportedAnnotations(projectPath, annotations);
+    await annotationStorage.addAnnotations(annotations, projectPath);
+    await annotationStorage.commitChanges(
+      projectPath,
+      `Import ${annotations.length} annotation(s) from ${path.basename(source)}`
+    );
+    vscode.window.showInformationMessage(`Imported ${annotations.length} annotation(s)`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to import annotations: ${error}`);
+  }
+  refreshDecorations();
+}
+
+/**
+ * Anchor imported annotations to the current file contents so they follow
+ * later edits; files that can't be read are left unanchored
+ */
+async function anchorImportedAnnotations(projectPath: string, annotations: Annotation[]): Promise<void> {
+  const fileLines = new Map<string, string[] | undefined>();
+  for (const annotation of annotations) {
+    if (!fileLines.has(annotation.filePath)) {
+      const content = await fs.readFile(path.join(projectPath, annotation.filePath), 'utf-8').catch(() => undefined);
+      fileLines.set(annotation.filePath, content === undefined ? undefined : splitLines(content));
+    }
+    const lines = fileLines.get(annotation.filePath);
+    if (lines) {
+      annotation.anchor = createAnchor(lines, annotation.line);
+    }
+  }
+}
+
+async function updateDecorationsForEditor(editor: vscode.TextEditor): Promise<void> {
+  const projectPath = getProjectPathForUri(editor.document.uri);
+  if (!projectPath) {
+    return;
+  }
+
+  const filePath = relativeAnnotationPath(projectPath, editor.document.uri.fsPath);
+  const annotations = positionTracker.applyPending(
+    editor.document.uri.toString(),
+    annotationStorage.getAnnotationsForFile(filePath, projectPath)
+  ).filter(a =>
+    matchesFilter(a, activeFilter) &&
+    isInScope(a, projectPath) &&
+    !(closedDisplay === 'hidden' && isClosed(a))
+  );
+
+  // Display all annotations via CodeLens (above the line), keyed by absolute
+  // path since relative paths can collide between workspace folders
+  codeLensProvider.setAnnotationsForFile(editor.document.uri.fsPath, annotations);
+  hoverProvider.setAnnotationsForFile(editor.document.uri.fsPath, annotations);
+
+  // Highlight the spans of range annotations
+  editor.setDecorations(
+    rangeHighlightDecoration,
+    annotationsEnabled
+      ? annotations.filter(a => isRangeAnnotation(a) && (closedDisplay === 'shown' || !isClosed(a))).map(a => ({
+        range: new vscode.Range(a.line - 1, a.column, (a.endLine as number) - 1, a.endColumn ?? 0)
+      }))
+      : []
+  );
+
+  // Set author for new comment threads
+  const userInfo = await gitService.getGitUserInfo();
+  commentController.setAuthorForNewThreads(userInfo.name);
+
+  // Clear existing comment threads for this document and recreate
+  commentController.clearThreadsForDocument(editor.document.uri);
+  for (const annotation of annotations) {
+    commentController.createThreadForAnnotation(editor.document.uri, annotation);
+  }
+}
+
+/**
+ * Re-locate a freshly opened document's annotations against its content
+ */
+function relocateAnnotationsForDocument(document: vscode.TextDocument): void {
+  const projectPath = getProjectPathForUri(document.uri);
+  if (!projectPath) {
+    return;
+  }
+
+  const filePath = relativeAnnotationPath(projectPath, document.uri.fsPath);
+  const unplaced = annotationStorage.relocateAnnotations(
+    projectPath,
+    filePath,
+    splitLines(document.getText())
+  );
+  annotationStorage.reportUnplacedAnnotations(unplaced);
+  refreshDecorations();
+}
+
+/**
+ * Shift annotation lines in step with edits to their document
+ */
+function trackAnnotationPositions(event: vscode.TextDocumentChangeEvent): void {
+  const projectPath = getProjectPathForUri(event.document.uri);
+  if (!projectPath || event.contentChanges.length === 0) {
+    return;
+  }
+
+  const filePath = relativeAnnotationPath(projectPath, event.document.uri.fsPath);
+  positionTracker.applyChanges(
+    event.document.uri.toString(),
+    annotationStorage.getAnnotationsForFile(filePath, projectPath),
+    event.contentChanges
+  );
+}
+
+/**
+ * Write line shifts accumulated since the last save as a single commit
+ */
+async function persistPendingPositions(document: vscode.TextDocument): Promise<void> {
+  const positions = positionTracker.takePending(document.uri.toString());
+  const projectPath = getProjectPathForUri(document.uri);
+  if (!projectPath || !positions || positions.size === 0) {
+    return;
+  }
+
+  const filePath = relativeAnnotationPath(projectPath, document.uri.fsPath);
+  try {
+    const moved = await annotationStorage.updateAnnotationPositions(
+      projectPath,
+      positions,
+      splitLines(document.getText())
+    );
+    if (moved > 0) {
+      await annotationStorage.commitChanges(
+        projectPath,
+        `Move ${moved} annotation(s) in ${filePath}`
+      );
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save annotation positions: ${error}`);
+  }
+  refreshDecorations();
+}
+
+function createRangeHighlightDecoration(): vscode.TextEditorDecorationType {
+  const color = vscode.workspace.getConfiguration('vscode-annotate').get<string>('rangeHighlightColor');
+  return vscode.window.createTextEditorDecorationType({
+    backgroundColor: color || new vscode.ThemeColor('editor.rangeHighlightBackground'),
+    rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed
+  });
+}
+
+function refreshDecorations(): void {
+  const editor = vscode.window.activeTextEditor;
+  if (editor) {
+    updateDecorationsForEditor(editor);
+  }
+}
+
+export async function deactivate(): Promise<void> {
+  // Commit changes still waiting for the quiet period; other cleanup is
+  // handled by subscriptions
+  for (const repository of annotationStorage?.getRepositories() ?? []) {
+    await repository.git.flush();
+    repository.git.dispose();
+  }
 }
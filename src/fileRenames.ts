@@ -0,0 +1,99 @@
+import simpleGit from 'simple-git';
+import { toAnnotationPath } from './types';
+
+/**
+ * A file or folder moved within a project, with paths relative to the project
+ */
+export interface FileRename {
+  oldPath: string;
+  newPath: string;
+}
+
+/**
+ * New path of a file after a rename of the file itself or of a folder
+ * containing it; undefined if the rename doesn't affect it
+ */
+export function applyRename(filePath: string, rename: FileRename): string | undefined {
+  const current = toAnnotationPath(filePath);
+  const oldPath = toAnnotationPath(rename.oldPath);
+  if (current === oldPath) {
+    return toAnnotationPath(rename.newPath);
+  }
+  if (current.startsWith(`${oldPath}/`)) {
+    return toAnnotationPath(rename.newPath) + current.substring(oldPath.length);
+  }
+  return undefined;
+}
+
+/**
+ * New path of a file after renames made at the same time, e.g. in one
+ * explorer operation; undefined if none of them affect it
+ */
+export function applyRenames(filePath: string, renames: FileRename[]): string | undefined {
+  for (const rename of renames) {
+    const renamed = applyRename(filePath, rename);
+    if (renamed !== undefined) {
+      return renamed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Follow a file through renames made one after another, oldest first, to
+ * where it is now; undefined if it was never renamed
+ */
+export function followRenames(filePath: string, history: FileRename[]): string | undefined {
+  const original = toAnnotationPath(filePath);
+  let current = original;
+  for (const rename of history) {
+    if (toAnnotationPath(rename.oldPath) === current) {
+      current = toAnnotationPath(rename.newPath);
+    }
+  }
+  return current === original ? undefined : current;
+}
+
+/**
+ * Parse the renames out of `git diff --name-status` or `git log --name-status`
+ * output, in the order listed
+ */
+export function parseRenames(output: string): FileRename[] {
+  const renames: FileRename[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const [status, oldPath, newPath] = line.split('\t');
+    if (status?.startsWith('R') && oldPath && newPath) {
+      renames.push({ oldPath, newPath });
+    }
+  }
+  return renames;
+}
+
+/**
+ * Renames git detects in a source repository, oldest first: those in its
+ * history followed by renames not yet committed. Paths are relative to the
+ * project folder.
+ */
+export async function readSourceRenames(projectPath: string): Promise<FileRename[]> {
+  const git = simpleGit(projectPath);
+  const prefix = (await git.revparse(['--show-prefix'])).trim();
+  const options = ['-M', '--diff-filter=R', '--name-status'];
+  const committed = await git.raw(['-c', 'core.quotePath=false', 'log', ...options, '--format=', '--reverse', 'HEAD']);
+  const uncommitted = await git.raw(['-c', 'core.quotePath=false', 'diff', ...options, 'HEAD']);
+
+  // Git reports paths relative to the repository root with forward slashes,
+  // like annotation paths
+  const toProjectPath = (repoPath: string) => repoPath.startsWith(prefix)
+    ? repoPath.substring(prefix.length)
+    : undefined;
+
+  const renames: FileRename[] = [];
+  for (const rename of parseRenames(committed + '\n' + uncommitted)) {
+    const oldPath = toProjectPath(rename.oldPath);
+    const newPath = toProjectPath(rename.newPath);
+    if (oldPath && newPath) {
+      renames.push({ oldPath, newPath });
+    }
+  }
+  return renames;
+}
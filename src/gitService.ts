@@ -2,13 +2,82 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import simpleGit, { SimpleGit } from 'simple-git';
+import { AnnotationData } from './types';
+import {
+  AnnotationConflict,
+  ConflictResolutions,
+  ConflictResolver,
+  MergeResult,
+  applyResolutions,
+  mergeAnnotationData
+} from './annotationMerge';
+import { CommitScheduler } from './commitScheduler';
+
+/**
+ * Why a sync failed: the remote could not be reached, or annotations
+ * conflicted and were not merged
+ */
+export type SyncFailureReason = 'offline' | 'conflict';
+
+export class SyncError extends Error {
+  constructor(message: string, public readonly reason: SyncFailureReason) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/**
+ * A commit of the annotation repository and the files it changed
+ */
+export interface CommitInfo {
+  hash: string;
+  author: string;
+  /** Commit time in ms since epoch */
+  date: number;
+  message: string;
+  files: string[];
+}
 
 export class GitService {
   private git: SimpleGit | null = null;
   private repoPath: string | null = null;
+  private readOnly = false;
+  // Git operations run one at a time so a background sync and a commit
+  // never race for the index
+  private pendingOperation: Promise<void> = Promise.resolve();
+
+  // Unpushed commits live in the repository itself, so the push queue
+  // survives restarts; only the retry schedule is kept here
+  private scheduler = new CommitScheduler(
+    () => this.exclusive(() => this.commitPendingChanges()),
+    () => this.exclusive(() => this.pushQueuedCommits()),
+    error => vscode.window.showErrorMessage(`Failed to commit annotations: ${error}`)
+  );
+  private pushError: string | undefined;
 
-  async initialize(repoPath: string): Promise<void> {
+  private _onDidChangeRepository = new vscode.EventEmitter<void>();
+  /** Fired after commits, merges and pushes */
+  public readonly onDidChangeRepository = this._onDidChangeRepository.event;
+
+  /**
+   * Open a repository, creating it if needed. A read-only repository must
+   * already exist; it is only ever pulled.
+   */
+  async initialize(repoPath: string, readOnly = false): Promise<void> {
+    await this.flush();
+    this.scheduler.cancel();
     this.repoPath = repoPath;
+    this.readOnly = readOnly;
+
+    if (readOnly) {
+      this.git = null;
+      const git = simpleGit(repoPath);
+      if (!(await git.checkIsRepo())) {
+        throw new Error(`${repoPath} is not a git repository`);
+      }
+      this.git = git;
+      return;
+    }
 
     try {
       await fs.access(repoPath);
@@ -25,6 +94,9 @@ export class GitService {
       await this.git.add('.');
       await this.git.commit('Initial commit');
     }
+
+    // Catch up on commits left unpushed by an earlier session
+    this.scheduler.schedulePush(0);
   }
 
   private async createReadme(): Promise<void> {
@@ -40,8 +112,9 @@ This repository stores code annotations created by the VSCode Annotate extension
 ## Structure
 
 Annotations are stored in JSON files organized by project:
-- Each project has its own subdirectory
-- Annotations are stored in \`annotations.json\` files
+- Each project has its own subdirectory with a \`project.json\` manifest
+- Annotations are stored in \`files/\`, one JSON file per annotated source file
+- Projects created by older versions keep a single \`annotations.json\` until migrated
 `;
 
     await fs.writeFile(readmePath, content, 'utf-8');
@@ -70,10 +143,50 @@ Annotations are stored in JSON files organized by project:
     return result;
   }
 
+  /**
+   * Run a git operation once all earlier ones have finished
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.pendingOperation.then(operation);
+    this.pendingOperation = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Wait this long after the last change before committing, so a burst of
+   * edits becomes one commit; 0 commits immediately
+   */
+  setCommitDelay(ms: number): void {
+    this.scheduler.setDelay(ms);
+  }
+
+  /**
+   * Commit the changes saved to the repository once no further changes arrive
+   * for the commit delay, then push. Pushes that fail are retried with backoff.
+   */
   async commitAndPush(message: string): Promise<void> {
     if (!this.git) {
       throw new Error('Git not initialized');
     }
+    if (this.readOnly) {
+      throw new Error(`${this.repoPath} is a read-only annotation repository`);
+    }
+
+    await this.scheduler.add(message);
+  }
+
+  /**
+   * Commit waiting changes right away, e.g. before syncing or shutting down
+   */
+  async flush(): Promise<void> {
+    await this.scheduler.flush();
+  }
+
+  private async commitPendingChanges(): Promise<void> {
+    const messages = this.scheduler.takeMessages();
+    if (!this.git) {
+      return;
+    }
 
     try {
       await this.git.add('.');
@@ -85,30 +198,303 @@ Annotations are stored in JSON files organized by project:
         return;
       }
 
-      await this.git.commit(message);
+      await this.git.commit(
+        messages.length === 1
+          ? messages[0]
+          : [`Update annotations (${messages.length} changes)`, messages.map(m => `- ${m}`).join('\n')]
+      );
+      this._onDidChangeRepository.fire();
+    } catch (error) {
+      throw new Error(`Git operation failed: ${error}`);
+    }
+  }
 
-      const remotes = await this.git.getRemotes();
-      if (remotes.length > 0) {
-        await this.git.push();
+  /**
+   * Push local commits the remote doesn't have yet, if there is a remote
+   */
+  private async pushQueuedCommits(): Promise<void> {
+    if (!this.git) {
+      return;
+    }
+
+    const remotes = await this.git.getRemotes();
+    if (remotes.length === 0) {
+      return;
+    }
+
+    const upstream = await this.getUpstream();
+    if (upstream) {
+      const ahead = parseInt(await this.executeGitCommand(['rev-list', '--count', `${upstream}..HEAD`]), 10);
+      if (ahead === 0) {
+        this.pushError = undefined;
+        return;
       }
+    }
+
+    try {
+      await this.git.push(upstream ? [] : ['--set-upstream', remotes[0].name, 'HEAD']);
+      this.pushError = undefined;
     } catch (error) {
-      throw new Error(`Git operation failed: ${error}`);
+      this.pushError = `Git push failed: ${error}`;
+      throw new SyncError(this.pushError, 'offline');
+    } finally {
+      this._onDidChangeRepository.fire();
+    }
+  }
+
+  /**
+   * Why the last push failed, if commits are still waiting to be pushed
+   */
+  getPushError(): string | undefined {
+    return this.pushError;
+  }
+
+  /**
+   * Fetch from the remote and merge annotation files semantically instead of
+   * line by line. Only the fully merged result is committed; if conflicts are
+   * left unresolved the merge is aborted and the repository is left untouched.
+   */
+  async syncWithRemote(resolveConflicts: ConflictResolver): Promise<void> {
+    this.scheduler.cancel();
+    if (this.readOnly) {
+      await this.exclusive(() => this.pullReadOnly());
+      return;
+    }
+    try {
+      await this.exclusive(() => this.doSyncWithRemote(resolveConflicts));
+    } finally {
+      this._onDidChangeRepository.fire();
+      // Keep retrying whatever the sync could not push
+      this.scheduler.schedulePush();
     }
   }
 
-  async pull(): Promise<void> {
+  private async doSyncWithRemote(resolveConflicts: ConflictResolver): Promise<void> {
     if (!this.git) {
       throw new Error('Git not initialized');
     }
 
+    await this.commitPendingChanges();
+
+    const remotes = await this.git.getRemotes();
+    if (remotes.length === 0) {
+      return;
+    }
+
     try {
-      const remotes = await this.git.getRemotes();
-      if (remotes.length > 0) {
-        await this.git.pull();
+      await this.git.fetch();
+    } catch (error) {
+      throw new SyncError(`Git fetch failed: ${error}`, 'offline');
+    }
+
+    const upstream = await this.getUpstream();
+    await this.commitLocalChanges();
+    if (!upstream) {
+      // Branch was never pushed; nothing to merge yet
+      await this.pushQueuedCommits();
+      return;
+    }
+
+    const head = (await this.git.revparse(['HEAD'])).trim();
+    const theirs = (await this.git.revparse([upstream])).trim();
+    const base = (await this.git.raw(['merge-base', 'HEAD', upstream])).trim();
+
+    if (base === theirs) {
+      // Nothing new upstream; just catch up on queued pushes
+      await this.pushQueuedCommits();
+      return;
+    }
+    if (base === head) {
+      await this.git.merge(['--ff-only', upstream]);
+      return;
+    }
+
+    const changedOurs = await this.getChangedFiles(base, head);
+    const changedTheirs = new Set(await this.getChangedFiles(base, theirs));
+    const changedBoth = changedOurs.filter(file => changedTheirs.has(file));
+
+    try {
+      await this.git.raw(['merge', '--no-commit', '--no-ff', upstream]);
+    } catch {
+      // Textual conflicts are expected; annotation files are rewritten below
+    }
+
+    try {
+      const allConflicts: AnnotationConflict[] = [];
+      const results = new Map<string, MergeResult>();
+
+      for (const file of changedBoth) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+        const versions = [
+          await this.readJsonAt(base, file),
+          await this.readJsonAt(head, file),
+          await this.readJsonAt(theirs, file)
+        ];
+        if (!versions.some(data => Array.isArray(data?.annotations))) {
+          continue;
+        }
+        const result = mergeAnnotationData(file, versions[0], versions[1], versions[2]);
+        results.set(file, result);
+        allConflicts.push(...result.conflicts);
       }
+
+      const status = await this.git.status();
+      const unmergeable = status.conflicted.filter(file => !results.has(file));
+      if (unmergeable.length > 0) {
+        throw new SyncError(`Cannot merge ${unmergeable.join(', ')} automatically`, 'conflict');
+      }
+
+      let resolutions: ConflictResolutions = new Map();
+      if (allConflicts.length > 0) {
+        const chosen = await resolveConflicts(allConflicts);
+        if (!chosen) {
+          throw new SyncError('Sync cancelled; conflicting annotations were not merged', 'conflict');
+        }
+        resolutions = chosen;
+      }
+
+      for (const [file, result] of results) {
+        const data = applyResolutions(result.data, result.conflicts, resolutions);
+        await fs.writeFile(path.join(this.repoPath as string, file), JSON.stringify(data, null, 2), 'utf-8');
+        await this.git.add(file);
+      }
+
+      await this.git.commit(`Merge annotations from ${upstream}`);
     } catch (error) {
-      throw new Error(`Git pull failed: ${error}`);
+      await this.git.raw(['merge', '--abort']).catch(() => undefined);
+      throw error;
+    }
+
+    await this.pushQueuedCommits();
+  }
+
+  /**
+   * Fast-forward a read-only repository to its upstream; nothing is ever
+   * committed to it, so there is nothing to merge
+   */
+  private async pullReadOnly(): Promise<void> {
+    if (!this.git) {
+      throw new Error('Git not initialized');
+    }
+
+    if ((await this.git.getRemotes()).length === 0) {
+      return;
+    }
+
+    try {
+      await this.git.fetch();
+    } catch (error) {
+      throw new SyncError(`Git fetch failed: ${error}`, 'offline');
+    }
+
+    const upstream = await this.getUpstream();
+    if (upstream) {
+      await this.git.merge(['--ff-only', upstream]);
+      this._onDidChangeRepository.fire();
+    }
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
+  async hasRemote(): Promise<boolean> {
+    if (!this.git) {
+      return false;
     }
+    return (await this.git.getRemotes()).length > 0;
+  }
+
+  /**
+   * Number of local commits not yet pushed, plus one if there are saved but
+   * uncommitted changes. Undefined if the branch has no upstream yet.
+   */
+  async getPendingChangeCount(): Promise<number | undefined> {
+    return this.exclusive(async () => {
+      if (!this.git) {
+        return undefined;
+      }
+
+      const upstream = await this.getUpstream();
+      if (!upstream) {
+        return undefined;
+      }
+      const uncommitted = (await this.git.status()).isClean() ? 0 : 1;
+      const ahead = parseInt(await this.executeGitCommand(['rev-list', '--count', `${upstream}..HEAD`]), 10);
+      return ahead + uncommitted;
+    });
+  }
+
+  private async getUpstream(): Promise<string | undefined> {
+    try {
+      const upstream = await this.executeGitCommand(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{u}']);
+      return upstream.trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Commit anything saved to disk but not yet committed so a merge can start
+   */
+  private async commitLocalChanges(): Promise<void> {
+    if (!this.git) {
+      return;
+    }
+
+    await this.git.add('.');
+    const status = await this.git.status();
+    if (status.staged.length > 0) {
+      await this.git.commit('Save local annotation changes');
+    }
+  }
+
+  private async getChangedFiles(from: string, to: string): Promise<string[]> {
+    const output = await this.executeGitCommand(['diff', '--name-only', from, to]);
+    return output.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  }
+
+  /**
+   * The most recent commits changing anything under a repository-relative
+   * path, oldest first. Only first parents are followed, so commits made on
+   * other branches show up as the merge that brought them in, with the files
+   * it changed.
+   */
+  async getCommitsTouching(relativePath: string, maxCount: number): Promise<CommitInfo[]> {
+    const output = await this.executeGitCommand([
+      'log', '--first-parent', '-m', '--reverse', `--max-count=${maxCount}`, '--name-only',
+      '--format=%x1e%H%x1f%an%x1f%at%x1f%s', '--', relativePath
+    ]);
+    return output.split('\x1e').filter(entry => entry.trim().length > 0).map(entry => {
+      const [header, ...files] = entry.split('\n');
+      const [hash, author, date, message] = header.split('\x1f');
+      return {
+        hash,
+        author,
+        date: parseInt(date, 10) * 1000,
+        message,
+        files: files.map(file => file.trim()).filter(file => file.length > 0)
+      };
+    });
+  }
+
+  async readJsonAt(revision: string, file: string): Promise<AnnotationData | undefined> {
+    try {
+      const content = await this.executeGitCommand(['show', `${revision}:${file}`]);
+      return JSON.parse(content);
+    } catch {
+      // File doesn't exist at this revision
+      return undefined;
+    }
+  }
+
+  /**
+   * Stop pending timers; call flush() first to keep waiting changes
+   */
+  dispose(): void {
+    this.scheduler.cancel();
   }
 
   getRepoPath(): string | null {
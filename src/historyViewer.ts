@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { Annotation, truncateText } from './types';
+import { AnnotationVersion } from './annotationHistory';
+
+export const HISTORY_SCHEME = 'annotation-history';
+
+/**
+ * Serves read-only documents with past versions of annotations for diffs
+ */
+export class AnnotationHistoryContentProvider implements vscode.TextDocumentContentProvider {
+  private contents: Map<string, string> = new Map();
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  /**
+   * Create a document for one version of an annotation
+   */
+  createDocument(annotation: Annotation | undefined, label: string): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: HISTORY_SCHEME,
+      path: `/${label}.json`,
+      query: `${this.contents.size}`
+    });
+    this.contents.set(uri.toString(), formatVersion(annotation));
+    return uri;
+  }
+}
+
+/**
+ * The fields a reader cares about; the anchor changes whenever the code
+ * around an annotation does and would only clutter the diff
+ */
+function formatVersion(annotation: Annotation | undefined): string {
+  if (!annotation) {
+    return '';
+  }
+  const fields: Partial<Annotation> = { ...annotation };
+  delete fields.anchor;
+  return JSON.stringify(fields, null, 2) + '\n';
+}
+
+interface VersionItem extends vscode.QuickPickItem {
+  version: AnnotationVersion;
+  previous: AnnotationVersion | undefined;
+}
+
+/**
+ * List the versions of an annotation, newest first. Selecting a version
+ * shows what it changed; item buttons compare it with the current version
+ * or restore it.
+ */
+export function showAnnotationHistory(
+  versions: AnnotationVersion[],
+  current: Annotation | undefined,
+  contentProvider: AnnotationHistoryContentProvider,
+  onRestore: (annotation: Annotation, version: AnnotationVersion) => Promise<void>
+): void {
+  const compareButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('diff'),
+    tooltip: 'Compare with current version'
+  };
+  const restoreButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('discard'),
+    tooltip: 'Restore this version'
+  };
+
+  const items: VersionItem[] = versions.map((version, index) => ({
+    label: `$(git-commit) ${version.commit.substring(0, 7)}`,
+    description: `${version.author} · ${new Date(version.date).toLocaleString()}`,
+    detail: version.unreadable
+      ? `Unreadable, encrypted with a key that isn't set — ${version.message}`
+      : (version.annotation ? `${truncateText(version.annotation.text, 80)} — ${version.message}` : `Deleted — ${version.message}`),
+    buttons: version.annotation && !version.unreadable ? [compareButton, restoreButton] : [],
+    version,
+    previous: versions[index - 1]
+  })).reverse();
+
+  const describe = (version: AnnotationVersion | undefined) =>
+    version ? version.commit.substring(0, 7) : 'none';
+  // Ciphertext would only clutter the diff
+  const readable = (version: AnnotationVersion | undefined) =>
+    version?.unreadable ? undefined : version?.annotation;
+
+  const quickPick = vscode.window.createQuickPick<VersionItem>();
+  quickPick.placeholder = 'Select a version to see what it changed';
+  quickPick.matchOnDescription = true;
+  quickPick.matchOnDetail = true;
+  quickPick.items = items;
+
+  quickPick.onDidAccept(async () => {
+    const selected = quickPick.selectedItems[0];
+    if (!selected) {
+      return;
+    }
+    const { version, previous } = selected;
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      contentProvider.createDocument(readable(previous), describe(previous)),
+      contentProvider.createDocument(readable(version), describe(version)),
+      `Annotation: ${describe(previous)} ↔ ${describe(version)}`,
+      { preview: true, preserveFocus: true }
+    );
+  });
+
+  quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+    if (button === compareButton) {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        contentProvider.createDocument(item.version.annotation, describe(item.version)),
+        contentProvider.createDocument(current, 'current'),
+        `Annotation: ${describe(item.version)} ↔ current`,
+        { preview: true, preserveFocus: true }
+      );
+    } else if (button === restoreButton && item.version.annotation) {
+      quickPick.hide();
+      await onRestore(item.version.annotation, item.version);
+    }
+  });
+
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+}
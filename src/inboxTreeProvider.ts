@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import { Annotation, truncateText } from './types';
+import { AnnotationStorage, SyncedProject } from './annotationStorage';
+import { InboxEntry, InboxReason, InboxUser, diffForInbox, mergeInboxEntries } from './annotationInbox';
+
+/** Workspace state holding each user's unread entries, keyed by email or name */
+const INBOX_STATE_KEY = 'annotationInbox';
+
+const REASON_LABELS: Record<InboxReason, string> = {
+  mentioned: 'Mentions you',
+  added: 'New',
+  replied: 'New reply',
+  edited: 'Changed'
+};
+
+const REASON_ICONS: Record<InboxReason, string> = {
+  mentioned: 'mention',
+  added: 'comment',
+  replied: 'comment-discussion',
+  edited: 'edit'
+};
+
+export class InboxItem extends vscode.TreeItem {
+  constructor(
+    public readonly entry: InboxEntry,
+    public readonly annotation: Annotation,
+    public readonly projectPath: string
+  ) {
+    super(truncateText(annotation.text, 60), vscode.TreeItemCollapsibleState.None);
+    const by = entry.author ? ` by ${entry.author}` : '';
+    this.description = `${REASON_LABELS[entry.reason]}${by} · ${annotation.filePath}:${annotation.line}`;
+    this.tooltip = new vscode.MarkdownString(
+      `**${REASON_LABELS[entry.reason]}**${by} · ${new Date(entry.received).toLocaleString()}\n\n` +
+      `\`${annotation.filePath}:${annotation.line}\`\n\n---\n\n`
+    ).appendText(annotation.text);
+    this.iconPath = new vscode.ThemeIcon(REASON_ICONS[entry.reason]);
+    this.contextValue = 'inboxEntry';
+    this.command = {
+      command: 'vscode-annotate.openInboxEntry',
+      title: 'Open Annotation',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Sidebar view of annotations teammates added or changed since the user last
+ * read them. Each git user has their own unread set, kept in workspace state.
+ */
+export class AnnotationInboxProvider implements vscode.TreeDataProvider<InboxItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<InboxItem | undefined>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private user: InboxUser | undefined;
+  private entries: InboxEntry[] = [];
+
+  constructor(
+    private storage: AnnotationStorage,
+    private state: vscode.Memento
+  ) {}
+
+  /**
+   * Show the unread set of a user
+   */
+  setUser(user: InboxUser): void {
+    this.user = user;
+    this.entries = this.state.get<Record<string, InboxEntry[]>>(INBOX_STATE_KEY, {})[this.getUserKey()] || [];
+    this.refresh();
+  }
+
+  getUser(): InboxUser | undefined {
+    return this.user;
+  }
+
+  /**
+   * Add what teammates changed in a sync to the unread set; returns the new
+   * entries
+   */
+  async addSyncedChanges(projects: SyncedProject[]): Promise<InboxEntry[]> {
+    const user = this.user;
+    if (!user) {
+      return [];
+    }
+
+    const received = Date.now();
+    const incoming = projects.flatMap(({ projectPath, before, after }) =>
+      diffForInbox(before, after, user).map(entry => ({ ...entry, projectPath, received }))
+    );
+    if (incoming.length > 0) {
+      this.entries = mergeInboxEntries(this.entries, incoming);
+      await this.save();
+    }
+    return incoming;
+  }
+
+  isUnread(annotationId: string): boolean {
+    return this.entries.some(entry => entry.annotationId === annotationId);
+  }
+
+  async markRead(annotationId: string): Promise<void> {
+    if (this.isUnread(annotationId)) {
+      this.entries = this.entries.filter(entry => entry.annotationId !== annotationId);
+      await this.save();
+    }
+  }
+
+  async markAllRead(): Promise<void> {
+    this.entries = [];
+    await this.save();
+  }
+
+  /**
+   * Number of unread entries whose annotation is still there
+   */
+  getUnreadCount(): number {
+    return this.getItems().length;
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  getTreeItem(element: InboxItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: InboxItem): InboxItem[] {
+    return element ? [] : this.getItems();
+  }
+
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /**
+   * Entries whose annotation was deleted or whose project was closed are
+   * left out but kept, in case the project is opened again
+   */
+  private getItems(): InboxItem[] {
+    const items: InboxItem[] = [];
+    for (const entry of this.entries) {
+      const annotation = this.storage.getAnnotationById(entry.annotationId, entry.projectPath);
+      if (annotation) {
+        items.push(new InboxItem(entry, annotation, entry.projectPath));
+      }
+    }
+    return items;
+  }
+
+  private getUserKey(): string {
+    return this.user ? (this.user.email || this.user.name) : '';
+  }
+
+  private async save(): Promise<void> {
+    const inboxes = this.state.get<Record<string, InboxEntry[]>>(INBOX_STATE_KEY, {});
+    await this.state.update(INBOX_STATE_KEY, { ...inboxes, [this.getUserKey()]: this.entries });
+    this.refresh();
+  }
+}
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Annotation, isArchived, truncateText } from './types';
+import { AnnotationStorage } from './annotationStorage';
+import { ORPHAN_REASONS, OrphanReason, describeOrphanReason, findOrphanedAnnotations } from './annotationHealth';
+
+/** Wait this long after the last change before checking annotations again */
+const CHECK_DELAY_MS = 500;
+
+export class OrphanGroupItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    public readonly children: OrphanItem[],
+    icon: vscode.ThemeIcon,
+    collapsibleState: vscode.TreeItemCollapsibleState
+  ) {
+    super(label, collapsibleState);
+    this.description = `${children.length}`;
+    this.iconPath = icon;
+    this.contextValue = 'orphanGroup';
+  }
+}
+
+/**
+ * An orphaned annotation, or an archived one when `reason` is undefined
+ */
+export class OrphanItem extends vscode.TreeItem {
+  constructor(
+    public readonly annotation: Annotation,
+    public readonly projectPath: string,
+    public readonly reason: OrphanReason | undefined,
+    public readonly suggestedLine: number | undefined
+  ) {
+    super(truncateText(annotation.text, 60), vscode.TreeItemCollapsibleState.None);
+    this.description = `${annotation.filePath}:${annotation.line}`;
+    this.tooltip = new vscode.MarkdownString(
+      `**${annotation.author}** · ${new Date(annotation.timestamp).toLocaleString()}\n\n` +
+      `\`${annotation.filePath}:${annotation.line}\` — ${reason ? describeOrphanReason(reason) : 'Archived'}` +
+      '\n\n---\n\n'
+    ).appendText(annotation.text);
+    this.iconPath = new vscode.ThemeIcon(reason ? 'warning' : 'archive');
+    this.contextValue = reason === 'missingFile'
+      ? 'orphanedAnnotation.missingFile'
+      : (reason ? 'orphanedAnnotation' : 'archivedAnnotation');
+    if (reason !== 'missingFile') {
+      this.command = {
+        command: 'vscode-annotate.revealAnnotation',
+        title: 'Reveal Annotation',
+        arguments: [this]
+      };
+    }
+  }
+}
+
+export type OrphanTreeNode = OrphanGroupItem | OrphanItem;
+
+/**
+ * Sidebar view listing annotations that no longer point at their code:
+ * their file is gone, their line is past its end or their anchor no longer
+ * matches. Archived annotations are listed separately. Annotations from
+ * read-only repositories can't be repaired and are left out.
+ */
+export class OrphanedAnnotationsProvider implements vscode.TreeDataProvider<OrphanTreeNode>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<OrphanTreeNode | undefined>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private groups: OrphanGroupItem[] = [];
+  private orphanCount = 0;
+  private checkTimer: ReturnType<typeof setTimeout> | undefined;
+  private isInScope: (annotation: Annotation, projectPath: string) => boolean = () => true;
+
+  /**
+   * @param readLines Current lines of a file, undefined if it doesn't exist
+   */
+  constructor(
+    private storage: AnnotationStorage,
+    private getProjectPaths: () => string[],
+    private readLines: (absolutePath: string) => Promise<string[] | undefined>
+  ) {}
+
+  /**
+   * Only check annotations that belong in the current context, e.g. the
+   * checked out branch, whose files are expected to exist
+   */
+  setScope(isInScope: (annotation: Annotation, projectPath: string) => boolean): void {
+    this.isInScope = isInScope;
+    this.refresh();
+  }
+
+  /**
+   * Check annotations again shortly, once changes have settled
+   */
+  refresh(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+    }
+    this.checkTimer = setTimeout(() => {
+      this.checkTimer = undefined;
+      this.check().catch(error => {
+        vscode.window.showErrorMessage(`Failed to check annotations: ${error}`);
+      });
+    }, CHECK_DELAY_MS);
+  }
+
+  /**
+   * Check annotations now; returns the number of orphaned annotations
+   */
+  async check(): Promise<number> {
+    const orphans: OrphanItem[] = [];
+    const archived: OrphanItem[] = [];
+    for (const projectPath of this.getProjectPaths()) {
+      const annotations = this.storage.getAllAnnotations(projectPath)
+        .filter(a => this.isInScope(a, projectPath) && !this.storage.isReadOnly(a.id, projectPath));
+      const found = await findOrphanedAnnotations(
+        annotations,
+        filePath => this.readLines(path.join(projectPath, filePath))
+      );
+      for (const orphan of found) {
+        orphans.push(new OrphanItem(orphan.annotation, projectPath, orphan.reason, orphan.suggestedLine));
+      }
+      for (const annotation of annotations.filter(isArchived)) {
+        archived.push(new OrphanItem(annotation, projectPath, undefined, undefined));
+      }
+    }
+
+    this.groups = ORPHAN_REASONS
+      .map(reason => new OrphanGroupItem(
+        describeOrphanReason(reason),
+        orphans.filter(item => item.reason === reason),
+        new vscode.ThemeIcon('warning'),
+        vscode.TreeItemCollapsibleState.Expanded
+      ))
+      .filter(group => group.children.length > 0);
+    if (archived.length > 0) {
+      this.groups.push(new OrphanGroupItem(
+        'Archived', archived, new vscode.ThemeIcon('archive'), vscode.TreeItemCollapsibleState.Collapsed
+      ));
+    }
+    this.orphanCount = orphans.length;
+    this._onDidChangeTreeData.fire(undefined);
+    return this.orphanCount;
+  }
+
+  getOrphanCount(): number {
+    return this.orphanCount;
+  }
+
+  getTreeItem(element: OrphanTreeNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: OrphanTreeNode): OrphanTreeNode[] {
+    if (element) {
+      return element instanceof OrphanGroupItem ? element.children : [];
+    }
+    return this.groups;
+  }
+
+  dispose(): void {
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+    }
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,126 @@
+import { Annotation } from './types';
+
+/**
+ * The parts of a text document change needed to shift line numbers
+ */
+export interface LineChange {
+  range: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  };
+  text: string;
+}
+
+/**
+ * Compute where a 0-indexed line ends up after a single content change
+ */
+export function shiftLine(line: number, change: LineChange): number {
+  const { start, end } = change.range;
+  const removed = end.line - start.line;
+  const added = (change.text.match(/\n/g) || []).length;
+
+  if (removed === 0 && added === 0) {
+    return line;
+  }
+
+  if (line > end.line) {
+    return line + added - removed;
+  }
+
+  if (line === end.line && line > start.line) {
+    // The tail of the last replaced line survives after the inserted text
+    return start.line + added;
+  }
+
+  if (line > start.line) {
+    // The line itself was deleted, keep the annotation at the edit
+    return start.line;
+  }
+
+  if (line === start.line && start.character === 0 && removed === 0 && change.text.endsWith('\n')) {
+    // Whole lines inserted directly above the annotated line
+    return line + added;
+  }
+
+  return line;
+}
+
+/**
+ * 1-indexed start and, for range annotations, end line of an annotation
+ */
+export interface AnnotationPosition {
+  line: number;
+  endLine?: number;
+}
+
+/**
+ * Tracks annotation lines shifted by unsaved edits, keyed by document URI
+ */
+export class AnnotationPositionTracker {
+  private pending: Map<string, Map<string, AnnotationPosition>> = new Map();
+
+  /**
+   * Shift the annotations of a document by a batch of content changes.
+   * Returns true if any annotation moved.
+   */
+  applyChanges(uri: string, annotations: Annotation[], changes: readonly LineChange[]): boolean {
+    const positions = this.pending.get(uri) || new Map<string, AnnotationPosition>();
+    let moved = false;
+
+    for (const annotation of annotations) {
+      const original = positions.get(annotation.id) ??
+        { line: annotation.line, endLine: annotation.endLine };
+      let line = original.line - 1;
+      let endLine = original.endLine === undefined ? undefined : original.endLine - 1;
+      for (const change of changes) {
+        line = shiftLine(line, change);
+        endLine = endLine === undefined ? undefined : Math.max(line, shiftLine(endLine, change));
+      }
+
+      const shifted: AnnotationPosition = {
+        line: line + 1,
+        endLine: endLine === undefined ? undefined : endLine + 1
+      };
+      if (shifted.line !== original.line || shifted.endLine !== original.endLine) {
+        positions.set(annotation.id, shifted);
+        moved = true;
+      }
+    }
+
+    if (positions.size > 0) {
+      this.pending.set(uri, positions);
+    }
+    return moved;
+  }
+
+  /**
+   * Return annotations with any unsaved line shifts applied
+   */
+  applyPending(uri: string, annotations: Annotation[]): Annotation[] {
+    const positions = this.pending.get(uri);
+    if (!positions) {
+      return annotations;
+    }
+
+    return annotations.map(a => {
+      const position = positions.get(a.id);
+      return position === undefined ? a : { ...a, ...position };
+    });
+  }
+
+  /**
+   * Remove and return the pending positions of a document by annotation ID
+   */
+  takePending(uri: string): Map<string, AnnotationPosition> | undefined {
+    const positions = this.pending.get(uri);
+    this.pending.delete(uri);
+    return positions;
+  }
+
+  /**
+   * Forget unsaved shifts, e.g. when a document is closed without saving
+   */
+  discard(uri: string): void {
+    this.pending.delete(uri);
+  }
+}
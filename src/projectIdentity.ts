@@ -0,0 +1,112 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import simpleGit from 'simple-git';
+
+export interface ProjectIdentity {
+  /** Folder name of the project inside the annotation repository */
+  id: string;
+  /**
+   * Portable key stored on annotations: normalized remote URL, followed by
+   * the folder's path for a subfolder of the repository, or folder name
+   */
+  key: string;
+  /** Normalized remote URL of the source repository, if it has one */
+  remoteUrl?: string;
+}
+
+/**
+ * Normalize a git remote URL so that HTTPS, SSH and scp-style forms of the
+ * same repository compare equal, e.g. `github.com/org/repo`
+ */
+export function normalizeRemoteUrl(url: string): string {
+  let normalized = url.trim();
+
+  const hasScheme = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(normalized);
+  const scpLike = /^(?:[^@/]+@)?([^:/\\]{2,}):(?!\/)(.+)$/.exec(normalized);
+  if (hasScheme) {
+    try {
+      const parsed = new URL(normalized);
+      if (parsed.protocol !== 'file:') {
+        // Drop credentials, ports and the scheme, which vary between teammates
+        normalized = `${parsed.hostname.toLowerCase()}${parsed.pathname}`;
+      }
+    } catch {
+      // Malformed URL; use it as-is
+    }
+  } else if (scpLike) {
+    normalized = `${scpLike[1].toLowerCase()}/${scpLike[2]}`;
+  }
+
+  return normalized.replace(/\/+$/, '').replace(/\.git$/, '');
+}
+
+/**
+ * Folder name used before projects were identified by remote URL
+ */
+export function legacyProjectFolderName(projectPath: string): string {
+  const normalized = path.normalize(projectPath);
+  return projectFolderName(path.basename(normalized), normalized);
+}
+
+function projectFolderName(name: string, key: string): string {
+  // Use SHA-256 hash truncated to 16 chars for a unique, readable folder name
+  const hash = createHash('sha256').update(key).digest('hex').substring(0, 16);
+  // Prepend a readable portion of the project name for easier identification
+  const readableName = name.replace(/[^a-zA-Z0-9-_]/g, '_');
+  return `${readableName}_${hash}`;
+}
+
+/**
+ * Identify a project by its source repository's remote URL and, for a
+ * subfolder of the repository, the folder's path inside it, falling back to
+ * the legacy absolute path hash when it has no remote.
+ */
+export async function resolveProjectIdentity(projectPath: string): Promise<ProjectIdentity> {
+  const source = await getSourceRepository(projectPath);
+  if (source) {
+    const normalized = normalizeRemoteUrl(source.remoteUrl);
+    const key = source.prefix ? `${normalized}/${source.prefix}` : normalized;
+    const name = key.split('/').pop() || path.basename(projectPath);
+    return {
+      id: projectFolderName(name, key),
+      key,
+      remoteUrl: normalized
+    };
+  }
+
+  return fallbackProjectIdentity(projectPath);
+}
+
+/**
+ * Identity of a project without a remote: the legacy path hash
+ */
+export function fallbackProjectIdentity(projectPath: string): ProjectIdentity {
+  return {
+    id: legacyProjectFolderName(projectPath),
+    key: path.basename(path.normalize(projectPath))
+  };
+}
+
+/**
+ * Remote URL of the repository a project is in, and the project's folder
+ * inside it with forward slashes, empty at the root
+ */
+async function getSourceRepository(projectPath: string): Promise<{ remoteUrl: string; prefix: string } | undefined> {
+  try {
+    const git = simpleGit(projectPath);
+    if (!(await git.checkIsRepo())) {
+      return undefined;
+    }
+
+    const remotes = await git.getRemotes(true);
+    const remote = remotes.find(r => r.name === 'origin') || remotes[0];
+    const remoteUrl = remote?.refs.fetch || remote?.refs.push;
+    if (!remoteUrl) {
+      return undefined;
+    }
+    const prefix = (await git.revparse(['--show-prefix'])).trim().replace(/\/+$/, '');
+    return { remoteUrl, prefix };
+  } catch {
+    return undefined;
+  }
+}
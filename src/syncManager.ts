@@ -0,0 +1,281 @@
+import * as vscode from 'vscode';
+import { SyncError } from './gitService';
+import { AnnotationStorage } from './annotationStorage';
+import { AnnotationRepository } from './annotationRepositories';
+import { ConflictResolver } from './annotationMerge';
+
+export type SyncState = 'synced' | 'pending' | 'syncing' | 'offline' | 'conflict';
+
+/** Wait this long after the last change on disk before reloading */
+const WATCH_DEBOUNCE_MS = 500;
+
+const STATE_ICONS: Record<SyncState, string> = {
+  synced: '$(check)',
+  pending: '$(cloud-upload)',
+  syncing: '$(sync~spin)',
+  offline: '$(debug-disconnect)',
+  conflict: '$(warning)'
+};
+
+/**
+ * Background sync with the remotes of all annotation repositories, a watcher
+ * for changes made to them outside this window, and a status bar item
+ * showing the sync state
+ */
+export class AnnotationSyncManager implements vscode.Disposable {
+  private statusBarItem: vscode.StatusBarItem;
+  private state: SyncState = 'synced';
+  private pendingCount = 0;
+  private lastSync: number | undefined;
+  // Why the last sync failed; cleared by the next successful sync
+  private syncError: SyncError | undefined;
+  // Why pushes of repositories failed, prefixed with their names
+  private pushErrors: string[] = [];
+  private repositoryNames: string[] = [];
+  private syncing = false;
+  private runningSync: Promise<void> | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private intervalMs = 0;
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private changedFiles: Set<string> = new Set();
+  private watchTimer: NodeJS.Timeout | undefined;
+  private repositoryListeners: vscode.Disposable[] = [];
+
+  constructor(
+    private storage: AnnotationStorage,
+    private getProjectPaths: () => string[],
+    private onDidReload: () => void
+  ) {
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    this.statusBarItem.command = 'vscode-annotate.syncAnnotations';
+  }
+
+  /**
+   * Sync every `minutes` in the background; 0 stops background sync
+   */
+  setInterval(minutes: number): void {
+    this.intervalMs = Math.max(0, minutes) * 60 * 1000;
+    this.scheduleSync();
+  }
+
+  /**
+   * Watch the annotation repositories for changes made by other processes,
+   * e.g. a `git pull` in a terminal or another VS Code window, and for their
+   * commits and pushes. Call again after repositories are added or removed.
+   */
+  watch(): void {
+    const repositories = this.storage.getRepositories();
+    this.repositoryListeners.forEach(listener => listener.dispose());
+    this.repositoryListeners = repositories.map(repository =>
+      repository.git.onDidChangeRepository(() => this.updatePendingState())
+    );
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = repositories.map(repository => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(repository.git.getRepoPath() as string), '**/*.json')
+      );
+      const onChange = (uri: vscode.Uri) => this.queueReload(uri.fsPath);
+      watcher.onDidChange(onChange);
+      watcher.onDidCreate(onChange);
+      watcher.onDidDelete(onChange);
+      return watcher;
+    });
+    this.updatePendingState();
+  }
+
+  /**
+   * Pull, merge and push, then reload every project. Throws if the sync
+   * failed, after recording why in the status bar. A sync already running is
+   * waited for first, as it may have left conflicts this one resolves.
+   */
+  async sync(resolveConflicts: ConflictResolver): Promise<void> {
+    while (this.runningSync) {
+      await this.runningSync.catch(() => undefined);
+    }
+
+    const running = this.runSync(resolveConflicts);
+    this.runningSync = running;
+    try {
+      await running;
+    } finally {
+      if (this.runningSync === running) {
+        this.runningSync = undefined;
+      }
+    }
+  }
+
+  private async runSync(resolveConflicts: ConflictResolver): Promise<void> {
+    this.syncing = true;
+    this.setState('syncing');
+    try {
+      await this.storage.sync(this.getProjectPaths(), resolveConflicts);
+      this.lastSync = Date.now();
+      this.syncError = undefined;
+      this.onDidReload();
+    } catch (error) {
+      if (error instanceof SyncError) {
+        this.syncError = error;
+      }
+      throw error;
+    } finally {
+      this.syncing = false;
+      await this.updatePendingState();
+      this.scheduleSync();
+    }
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (this.watchTimer) {
+      clearTimeout(this.watchTimer);
+    }
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.statusBarItem.dispose();
+    this.repositoryListeners.forEach(listener => listener.dispose());
+  }
+
+  private scheduleSync(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.intervalMs > 0) {
+      this.timer = setTimeout(() => this.backgroundSync(), this.intervalMs);
+    }
+  }
+
+  private async backgroundSync(): Promise<void> {
+    if (this.syncing) {
+      // The running sync schedules the next one when it is done
+      return;
+    }
+    if ((await this.getSyncedRepositories()).length === 0) {
+      this.scheduleSync();
+      return;
+    }
+
+    try {
+      // Never interrupt with a conflict prompt; the status bar shows the
+      // conflict and a manual sync resolves it
+      await this.sync(async () => undefined);
+    } catch {
+      // Recorded in the status bar
+    }
+  }
+
+  private queueReload(filePath: string): void {
+    this.changedFiles.add(filePath);
+    if (this.watchTimer) {
+      clearTimeout(this.watchTimer);
+    }
+    this.watchTimer = setTimeout(() => this.reloadChangedFiles(), WATCH_DEBOUNCE_MS);
+  }
+
+  private async reloadChangedFiles(): Promise<void> {
+    this.watchTimer = undefined;
+    if (this.syncing) {
+      // The sync reloads everything once it is done
+      this.changedFiles.clear();
+      return;
+    }
+
+    const files = [...this.changedFiles];
+    this.changedFiles.clear();
+    const external = await Promise.all(files.map(file => this.storage.isExternalChange(file)));
+    if (!external.some(changed => changed)) {
+      return;
+    }
+
+    for (const projectPath of this.getProjectPaths()) {
+      await this.storage.loadAnnotations(projectPath);
+    }
+    this.onDidReload();
+    await this.updatePendingState();
+  }
+
+  private async updatePendingState(): Promise<void> {
+    if (this.syncing) {
+      return;
+    }
+
+    try {
+      const repositories = await this.getSyncedRepositories();
+      if (repositories.length === 0) {
+        this.statusBarItem.hide();
+        return;
+      }
+
+      let pendingCount = 0;
+      const pushErrors: string[] = [];
+      for (const repository of repositories.filter(r => !r.readOnly)) {
+        // A branch that was never pushed has no upstream yet
+        pendingCount += (await repository.git.getPendingChangeCount()) ?? 1;
+        const pushError = repository.git.getPushError();
+        if (pushError) {
+          pushErrors.push(repositories.length > 1 ? `${repository.name}: ${pushError}` : pushError);
+        }
+      }
+      this.pendingCount = pendingCount;
+      this.pushErrors = pushErrors;
+      this.repositoryNames = repositories.map(r => r.readOnly ? `${r.name} (read-only)` : r.name);
+      if (this.syncError?.reason === 'conflict') {
+        this.setState('conflict');
+      } else if (this.syncError || this.pushErrors.length > 0) {
+        this.setState('offline');
+      } else {
+        this.setState(this.pendingCount > 0 ? 'pending' : 'synced');
+      }
+    } catch {
+      // Repository is being reconfigured; try again on the next change
+    }
+  }
+
+  /**
+   * Repositories with a remote to sync with
+   */
+  private async getSyncedRepositories(): Promise<AnnotationRepository[]> {
+    const repositories: AnnotationRepository[] = [];
+    for (const repository of this.storage.getRepositories()) {
+      if (await repository.git.hasRemote()) {
+        repositories.push(repository);
+      }
+    }
+    return repositories;
+  }
+
+  private setState(state: SyncState): void {
+    this.state = state;
+    this.render();
+  }
+
+  private render(): void {
+    const descriptions: Record<SyncState, string> = {
+      synced: 'Annotations are in sync',
+      pending: `${this.pendingCount} local change(s) not pushed yet`,
+      syncing: 'Syncing annotations...',
+      offline: `Annotation remote is unreachable; ${this.pendingCount} change(s) queued`,
+      conflict: 'Conflicting annotations need to be resolved; click to sync'
+    };
+
+    const tooltip = [
+      descriptions[this.state],
+      this.lastSync !== undefined ? `Last sync: ${new Date(this.lastSync).toLocaleString()}` : 'Not synced yet',
+      ...(this.repositoryNames.length > 1 ? [`Repositories: ${this.repositoryNames.join(', ')}`] : []),
+      ...(this.state === 'offline' || this.state === 'conflict'
+        ? (this.syncError ? [this.syncError.message] : this.pushErrors)
+        : [])
+    ];
+
+    const lastSyncTime = this.lastSync !== undefined
+      ? ` · ${new Date(this.lastSync).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+      : '';
+    this.statusBarItem.text = `${STATE_ICONS[this.state]} Annotations${lastSyncTime}`;
+    this.statusBarItem.tooltip = tooltip.join('\n');
+    this.statusBarItem.backgroundColor = this.state === 'conflict'
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+    this.statusBarItem.show();
+  }
+}
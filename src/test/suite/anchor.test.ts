@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { createAnchor, locateAnchor, similarity } from '../../anchor';
+
+suite('Anchor Test Suite', () => {
+  const source = [
+    'import * as fs from "fs";',
+    '',
+    'function readConfig(path: string) {',
+    '  const raw = fs.readFileSync(path, "utf-8");',
+    '  return JSON.parse(raw);',
+    '}',
+    '',
+    'export default readConfig;'
+  ];
+
+  test('similarity ignores whitespace differences', () => {
+    assert.strictEqual(similarity('  return  JSON.parse(raw);', 'return JSON.parse(raw);'), 1);
+    assert.ok(similarity('return JSON.parse(raw);', 'return JSON.parse(text);') > 0.7);
+    assert.ok(similarity('return JSON.parse(raw);', 'export default readConfig;') < 0.3);
+  });
+
+  test('Anchor is found at its original line', () => {
+    const anchor = createAnchor(source, 4);
+    const match = locateAnchor(source, anchor, 4);
+    assert.strictEqual(match.line, 4);
+    assert.strictEqual(match.confidence, 1);
+  });
+
+  test('Anchor follows lines inserted above it', () => {
+    const anchor = createAnchor(source, 4);
+    const edited = ['// header', '// more header', ...source];
+    const match = locateAnchor(edited, anchor, 4);
+    assert.strictEqual(match.line, 6);
+    assert.ok(match.confidence > 0.9);
+  });
+
+  test('Anchor tolerates small edits to the annotated line', () => {
+    const anchor = createAnchor(source, 4);
+    const edited = [...source];
+    edited[3] = '  const raw = fs.readFileSync(path, "utf8");';
+    const match = locateAnchor(edited, anchor, 4);
+    assert.strictEqual(match.line, 4);
+    assert.ok(match.confidence >= 0.7);
+  });
+
+  test('Removed content yields low confidence', () => {
+    const anchor = createAnchor(source, 4);
+    const edited = ['const value = 42;', 'console.log(value);'];
+    const match = locateAnchor(edited, anchor, 4);
+    assert.ok(match.confidence < 0.7);
+  });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { AnnotationCipher, generateKey, isEncrypted } from '../../annotationCrypto';
+import { Annotation } from '../../types';
+import { createAnnotation } from './fixtures';
+
+function createFinding(): Annotation {
+  return createAnnotation({
+    filePath: 'src/auth/login.ts',
+    line: 12,
+    text: 'Password is compared in non-constant time',
+    timestamp: 1700000000000,
+    project: 'github.com/example/app',
+    anchor: { text: 'if (password === stored) {', before: ['const stored = load();'], after: ['}'] },
+    replies: [{ id: 'r1', text: 'Use timingSafeEqual', author: 'Bob', timestamp: 1700000100000 }],
+    tags: ['security'],
+    status: 'open'
+  });
+}
+
+suite('Annotation Crypto Test Suite', () => {
+  test('Annotations round-trip and keep their metadata readable', () => {
+    const cipher = new AnnotationCipher(generateKey(), [], false);
+    const annotation = createFinding();
+    const encrypted = cipher.encryptAnnotation(annotation);
+
+    assert.ok(isEncrypted(encrypted.text));
+    assert.ok(isEncrypted(encrypted.anchor!.text));
+    assert.ok(isEncrypted(encrypted.replies![0].text));
+    assert.strictEqual(encrypted.filePath, annotation.filePath);
+    assert.strictEqual(encrypted.author, 'Alice');
+    assert.deepStrictEqual(encrypted.tags, ['security']);
+    assert.deepStrictEqual(cipher.decryptAnnotation(encrypted), annotation);
+  });
+
+  test('Unchanged text encrypts to the same value', () => {
+    const cipher = new AnnotationCipher(generateKey(), [], false);
+    assert.strictEqual(cipher.encryptValue('same text'), cipher.encryptValue('same text'));
+    assert.notStrictEqual(cipher.encryptValue('same text'), cipher.encryptValue('other text'));
+  });
+
+  test('Values encrypted with an unknown key cannot be decrypted', () => {
+    const encrypted = new AnnotationCipher(generateKey(), [], false).encryptValue('secret');
+    const other = new AnnotationCipher(generateKey(), [], false);
+    assert.throws(() => other.decryptValue(encrypted), /key that isn't configured/);
+  });
+
+  test('Previous keys still decrypt after rotation', () => {
+    const oldKey = generateKey();
+    const encrypted = new AnnotationCipher(oldKey, [], false).encryptValue('secret');
+    const rotated = new AnnotationCipher(generateKey(), [oldKey], false);
+    assert.strictEqual(rotated.decryptValue(encrypted), 'secret');
+    assert.notStrictEqual(rotated.encryptValue('secret'), encrypted);
+  });
+
+  test('File paths are encrypted and hidden from shard names when enabled', () => {
+    const cipher = new AnnotationCipher(generateKey(), [], true);
+    const encrypted = cipher.encryptAnnotation(createFinding());
+    assert.ok(isEncrypted(encrypted.filePath));
+    assert.strictEqual(cipher.decryptAnnotation(encrypted).filePath, 'src/auth/login.ts');
+
+    const shardName = cipher.shardFileName('src/auth/login.ts');
+    assert.match(shardName, /^[0-9a-f]{24}\.json$/);
+    assert.strictEqual(cipher.shardFileName('src\\auth\\login.ts'), shardName);
+  });
+});
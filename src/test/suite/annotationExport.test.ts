@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import { createLink, extractSnippet, renderReport, ExportEntry, ReportInfo } from '../../annotationExport';
+import { Annotation } from '../../types';
+
+const annotation: Annotation = {
+  id: 'a1',
+  filePath: 'src/app.ts',
+  line: 2,
+  column: 4,
+  endLine: 3,
+  endColumn: 1,
+  text: 'Check <input> here',
+  author: 'Alice',
+  timestamp: 0,
+  project: 'example',
+  severity: 'high',
+  status: 'wontFix'
+};
+
+const info: ReportInfo = {
+  project: 'example',
+  filter: '',
+  generatedAt: 0,
+  toolVersion: '1.0.0',
+  projectPath: '/work/example'
+};
+
+const entries: ExportEntry[] = [{ annotation, snippet: ['b', 'c'], link: 'src/app.ts#L2-L3' }];
+
+suite('Annotation Export Test Suite', () => {
+  test('Snippets cover the annotated range', () => {
+    assert.deepStrictEqual(extractSnippet(['a', 'b', 'c', 'd'], annotation), ['b', 'c']);
+  });
+
+  test('Links are relative to the report', () => {
+    assert.strictEqual(createLink('/work/example/reports', '/work/example', annotation), '../src/app.ts#L2-L3');
+  });
+
+  test('HTML reports escape annotation text', () => {
+    const html = renderReport('html', entries, info);
+    assert.ok(html.includes('Check &lt;input&gt; here'));
+    assert.ok(!html.includes('<input>'));
+  });
+
+  test('SARIF results carry location, level and suppression', () => {
+    const sarif = JSON.parse(renderReport('sarif', entries, info));
+    assert.strictEqual(sarif.version, '2.1.0');
+    const result = sarif.runs[0].results[0];
+    assert.strictEqual(result.level, 'error');
+    assert.deepStrictEqual(result.locations[0].physicalLocation.region,
+      { startLine: 2, startColumn: 5, endLine: 3, endColumn: 2, snippet: { text: 'b\nc' } });
+    assert.strictEqual(result.suppressions[0].status, 'accepted');
+    assert.strictEqual(sarif.runs[0].originalUriBaseIds.SRCROOT.uri, 'file:///work/example/');
+  });
+});
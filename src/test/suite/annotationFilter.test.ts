@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { matchesFilter, matchesGlob, parseDate } from '../../annotationFilter';
+import { Annotation } from '../../types';
+import { createAnnotation } from './fixtures';
+
+function annotation(fields: Partial<Annotation>): Annotation {
+  return createAnnotation({ timestamp: new Date(2024, 2, 15, 12).getTime(), ...fields });
+}
+
+suite('Annotation Filter Test Suite', () => {
+  test('Globs match directories and file names', () => {
+    assert.ok(matchesGlob('src/auth/login.ts', 'src/**/*.ts'));
+    assert.ok(matchesGlob('src/login.ts', 'src/**/*.ts'));
+    assert.ok(!matchesGlob('test/login.ts', 'src/**/*.ts'));
+    assert.ok(matchesGlob('src/auth/login.ts', '*.{js,ts}'));
+    assert.ok(!matchesGlob('src/auth/login.tsx', '*.ts'));
+  });
+
+  test('Authors and date range narrow the annotations', () => {
+    const note = annotation({});
+    assert.ok(matchesFilter(note, { authors: ['Alice'] }));
+    assert.ok(!matchesFilter(note, { authors: ['Bob'] }));
+    assert.ok(matchesFilter(note, { since: parseDate('2024-03-15'), until: parseDate('2024-03-15', true) }));
+    assert.ok(!matchesFilter(note, { since: parseDate('2024-03-16') }));
+  });
+
+  test('Invalid dates are rejected', () => {
+    assert.strictEqual(parseDate('2024-02-30'), undefined);
+    assert.strictEqual(parseDate('yesterday'), undefined);
+  });
+});
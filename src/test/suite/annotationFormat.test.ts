@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import {
+  FORMAT_VERSION_1,
+  FORMAT_VERSION_2,
+  parseAnnotationData,
+  parseProjectManifest,
+  serializeData,
+  shardFileName
+} from '../../annotationFormat';
+import { createAnnotation } from './fixtures';
+
+suite('Annotation Format Test Suite', () => {
+  test('Legacy and sharded files are parsed', () => {
+    const annotations = [createAnnotation()];
+    for (const version of [FORMAT_VERSION_1, FORMAT_VERSION_2]) {
+      const data = parseAnnotationData(serializeData({ version, annotations }), 'annotations.json');
+      assert.strictEqual(data.version, version);
+      assert.deepStrictEqual(data.annotations, annotations);
+    }
+    assert.strictEqual(parseProjectManifest(serializeData({ version: FORMAT_VERSION_2 }), 'project.json').version, '2.0');
+  });
+
+  test('Unknown versions and files without annotations are rejected', () => {
+    assert.throws(() => parseAnnotationData('{"version":"3.0","annotations":[]}', 'a.json'), /unsupported .* version 3\.0/);
+    assert.throws(() => parseAnnotationData('{"annotations":[]}', 'a.json'), /version \(none\)/);
+    assert.throws(() => parseAnnotationData('{"version":"2.0"}', 'a.json'), /no annotations list/);
+    assert.throws(() => parseProjectManifest('{"version":"9"}', 'project.json'), /unsupported/);
+  });
+
+  test('Shard names are readable and stable across platforms', () => {
+    const name = shardFileName('src/auth/login.ts');
+    assert.match(name, /^login\.ts_[0-9a-f]{12}\.json$/);
+    assert.strictEqual(shardFileName('src\\auth\\login.ts'), name);
+    assert.match(shardFileName('src/my file (1).ts'), /^my_file__1_\.ts_[0-9a-f]{12}\.json$/);
+  });
+
+  test('Files with the same name in different folders get different shards', () => {
+    const names = ['src/index.ts', 'test/index.ts', 'index.ts', 'src/index_ts', 'src/index?ts'].map(shardFileName);
+    assert.strictEqual(new Set(names).size, names.length);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { checkAnnotation, findOrphanedAnnotations } from '../../annotationHealth';
+import { createAnchor } from '../../anchor';
+import { Annotation } from '../../types';
+import { createAnnotation as createBaseAnnotation } from './fixtures';
+
+const LINES = [
+  'function parse(input) {',
+  '  const rows = input.split("\\n");',
+  '  return rows.map(row => row.trim());',
+  '}',
+  ''
+];
+
+function createAnnotation(id: string, filePath: string, line: number, lines: string[] = LINES): Annotation {
+  return createBaseAnnotation({ id, filePath, line, anchor: createAnchor(lines, line) });
+}
+
+suite('Annotation Health Test Suite', () => {
+  test('Annotations on missing files are orphaned', () => {
+    assert.strictEqual(checkAnnotation(createAnnotation('a', 'gone.ts', 2), undefined)?.reason, 'missingFile');
+  });
+
+  test('Annotations whose anchor still matches are fine, even after moving', () => {
+    assert.strictEqual(checkAnnotation(createAnnotation('a', 'parse.ts', 2), LINES), undefined);
+    assert.strictEqual(checkAnnotation(createAnnotation('a', 'parse.ts', 2), ['// header', ...LINES]), undefined);
+  });
+
+  test('Lines past the end of a file are out of range', () => {
+    const annotation = { ...createAnnotation('a', 'parse.ts', 2), line: 40 };
+    delete annotation.anchor;
+    assert.deepStrictEqual(checkAnnotation(annotation, LINES), {
+      annotation,
+      reason: 'lineOutOfRange',
+      suggestedLine: LINES.length
+    });
+  });
+
+  test('Anchors matching nothing are reported', () => {
+    const rewritten = ['export const answer = 42;', 'console.log(answer);', '', '', ''];
+    assert.strictEqual(checkAnnotation(createAnnotation('a', 'parse.ts', 2), rewritten)?.reason, 'anchorMismatch');
+  });
+
+  test('Archived annotations are skipped and each file is read once', async () => {
+    const reads: string[] = [];
+    const orphans = await findOrphanedAnnotations(
+      [
+        createAnnotation('a', 'gone.ts', 1),
+        createAnnotation('b', 'gone.ts', 2),
+        { ...createAnnotation('c', 'gone.ts', 3), archived: true },
+        createAnnotation('d', 'parse.ts', 2)
+      ],
+      async filePath => {
+        reads.push(filePath);
+        return filePath === 'parse.ts' ? LINES : undefined;
+      }
+    );
+    assert.deepStrictEqual(orphans.map(o => o.annotation.id), ['a', 'b']);
+    assert.deepStrictEqual(reads, ['gone.ts', 'parse.ts']);
+  });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { buildHistory, findDeletedAnnotations, loadProjectHistory, CommitSnapshot } from '../../annotationHistory';
+import { GitService } from '../../gitService';
+import { Annotation } from '../../types';
+import { createAnnotation } from './fixtures';
+
+function note(id: string, text: string): Annotation {
+  return createAnnotation({ id, text });
+}
+
+function snapshot(hash: string, files: [string, Annotation[] | undefined][]): CommitSnapshot {
+  return { commit: { hash, author: 'Alice', date: hash.charCodeAt(0), message: hash }, files: new Map(files) };
+}
+
+suite('Annotation History Test Suite', () => {
+  test('Versions follow edits and skip unrelated commits', () => {
+    const history = buildHistory([
+      snapshot('a', [['p/files/app.json', [note('1', 'first')]]]),
+      snapshot('b', [['p/files/app.json', [note('1', 'first'), note('2', 'other')]]]),
+      snapshot('c', [['p/files/app.json', [note('1', 'second'), note('2', 'other')]]])
+    ]);
+    assert.deepStrictEqual(history.get('1')?.map(v => v.commit), ['a', 'c']);
+    assert.strictEqual(history.get('1')?.[1].annotation?.text, 'second');
+  });
+
+  test('Moving between files is not a deletion', () => {
+    const history = buildHistory([
+      snapshot('a', [['p/annotations.json', [note('1', 'first')]]]),
+      snapshot('b', [['p/annotations.json', undefined], ['p/files/app.json', [note('1', 'first')]]])
+    ]);
+    assert.strictEqual(history.get('1')?.length, 1);
+    assert.deepStrictEqual(findDeletedAnnotations(history), []);
+  });
+
+  test('Deleted annotations keep their last version', () => {
+    const history = buildHistory([
+      snapshot('a', [['p/files/app.json', [note('1', 'first'), note('2', 'keep')]]]),
+      snapshot('b', [['p/files/app.json', [note('1', 'edited'), note('2', 'keep')]]]),
+      snapshot('c', [['p/files/app.json', [note('2', 'keep')]]])
+    ]);
+    const [deleted] = findDeletedAnnotations(history);
+    assert.strictEqual(deleted.annotation.text, 'edited');
+    assert.strictEqual(deleted.deletedIn.commit, 'c');
+  });
+
+  test('Annotations added on another branch are not deleted by commits before the merge', async () => {
+    await withRepository(async (git, gitService) => {
+      await commitNotes(git, 1, [note('1', 'first')]);
+      await git.checkoutLocalBranch('feature');
+      await commitNotes(git, 2, [note('1', 'first'), note('2', 'theirs')]);
+      await git.checkout('main');
+      // Committed after the branch, but without its annotation
+      await commitNotes(git, 3, [note('1', 'edited')]);
+      await git.raw(['merge', '--no-ff', '--no-commit', '-s', 'ours', 'feature']);
+      await commitNotes(git, 4, [note('1', 'edited'), note('2', 'theirs')]);
+
+      const history = await loadProjectHistory(gitService, 'p');
+      assert.deepStrictEqual(history.get('2')?.map(v => v.annotation?.text), ['theirs']);
+      assert.deepStrictEqual(history.get('1')?.map(v => v.annotation?.text), ['first', 'edited']);
+      assert.deepStrictEqual(findDeletedAnnotations(history), []);
+    });
+  });
+
+  test('Versions that fail to decrypt are marked unreadable', async () => {
+    await withRepository(async (git, gitService) => {
+      await commitNotes(git, 1, [note('1', 'old key')]);
+      await commitNotes(git, 2, [note('1', 'current key')]);
+      await commitNotes(git, 3, []);
+
+      const history = await loadProjectHistory(gitService, 'p', annotation => {
+        if (annotation.text === 'old key') {
+          throw new Error('Unknown encryption key');
+        }
+        return annotation;
+      });
+      assert.deepStrictEqual(history.get('1')?.map(v => v.unreadable === true), [true, false, false]);
+      assert.strictEqual(findDeletedAnnotations(history)[0].annotation.text, 'current key');
+    });
+  });
+});
+
+/**
+ * Run a test against a new annotation repository on branch `main`
+ */
+async function withRepository(run: (git: SimpleGit, gitService: GitService) => Promise<void>): Promise<void> {
+  const repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'annotate-history-'));
+  const git = simpleGit(repoPath);
+  await git.init(['--initial-branch=main']);
+  await git.addConfig('user.name', 'Alice');
+  await git.addConfig('user.email', 'alice@example.com');
+  const gitService = new GitService();
+  try {
+    await gitService.initialize(repoPath);
+    await run(git, gitService);
+  } finally {
+    gitService.dispose();
+    await fs.rm(repoPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Commit the annotations of a shard, `time` seconds after a fixed date
+ */
+async function commitNotes(git: SimpleGit, time: number, annotations: Annotation[]): Promise<void> {
+  const repoPath = await git.revparse(['--show-toplevel']);
+  await fs.mkdir(path.join(repoPath, 'p', 'files'), { recursive: true });
+  await fs.writeFile(path.join(repoPath, 'p', 'files', 'app.json'), JSON.stringify({ version: '2.0', annotations }));
+  await git.add('.');
+  const date = `${1700000000 + time} +0000`;
+  await git.env({ ...process.env })
+    .env('GIT_AUTHOR_DATE', date)
+    .env('GIT_COMMITTER_DATE', date)
+    .commit(`Commit ${time}`);
+}
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { createImportedAnnotations, detectImportFormat, parseImportFile, resolveImportPath } from '../../annotationImport';
+import { renderReport } from '../../annotationExport';
+import { Annotation } from '../../types';
+
+const projectPath = path.resolve('/work/example');
+
+const options = { projectPath, project: 'example', defaultAuthor: 'Importer', now: 1000 };
+
+suite('Annotation Import Test Suite', () => {
+  test('Paths are resolved against the project', () => {
+    assert.strictEqual(resolveImportPath(projectPath, 'src/app.ts'), 'src/app.ts');
+    assert.strictEqual(resolveImportPath(projectPath, path.join(projectPath, 'src', 'app.ts')), 'src/app.ts');
+    assert.strictEqual(resolveImportPath(projectPath, '../other/app.ts'), undefined);
+    assert.strictEqual(resolveImportPath(projectPath, '..'), undefined);
+    assert.strictEqual(resolveImportPath(projectPath, '..foo.ts'), '..foo.ts');
+  });
+
+  test('Entries with malformed locations are skipped', () => {
+    const entries = [
+      { path: 'src/100%25.ts', line: 1, column: 0, text: 'Escaped' },
+      { path: 'src/100%zz%E0.ts', line: 2, column: 0, text: 'Malformed' }
+    ];
+    const result = createImportedAnnotations(entries, [], options);
+    assert.deepStrictEqual(result.annotations.map(a => a.filePath), ['src/100%.ts']);
+    assert.strictEqual(result.invalidLocation, 1);
+  });
+
+  test('Entries with lines an editor cannot show are skipped', () => {
+    const entries = [
+      { path: 'src/a.ts', line: 0, column: 0, text: 'Before the file' },
+      { path: 'src/a.ts', line: 1.5, column: 0, text: 'Fractional' },
+      { path: 'src/a.ts', line: 5, column: 0, endLine: 3, text: 'Ends before it starts' },
+      { path: 'src/a.ts', line: 2, column: -1, text: 'Negative column' },
+      { path: 'src/a.ts', line: 3, column: 0, endLine: 3, endColumn: 4, text: 'Valid' }
+    ];
+    const result = createImportedAnnotations(entries, [], options);
+    assert.deepStrictEqual(result.annotations.map(a => a.text), ['Valid']);
+    assert.strictEqual(result.invalidLocation, 4);
+  });
+
+  test('weAudit entries use 0-indexed lines', () => {
+    const data = {
+      treeEntries: [{
+        label: 'Missing bounds check',
+        entryType: 0,
+        author: 'alice',
+        details: { severity: 'High', type: 'Data Validation', description: 'Index comes from input' },
+        locations: [{ path: 'src/app.ts', startLine: 9, endLine: 11, label: '' }]
+      }],
+      resolvedEntries: []
+    };
+    assert.strictEqual(detectImportFormat('alice.weaudit', data), 'weaudit');
+
+    const [entry] = parseImportFile('weaudit', data);
+    assert.strictEqual(entry.line, 10);
+    assert.strictEqual(entry.endLine, 12);
+    assert.strictEqual(entry.severity, 'high');
+    assert.strictEqual(entry.text, 'Missing bounds check\n\nIndex comes from input');
+  });
+
+  test('SARIF exports round-trip', () => {
+    const annotation: Annotation = {
+      id: 'a1', filePath: 'src/app.ts', line: 3, column: 2, text: 'Check this', author: 'Alice',
+      timestamp: 5000, project: 'example', severity: 'critical', tags: ['auth'], category: 'finding'
+    };
+    const sarif = renderReport('sarif', [{ annotation, snippet: [], link: '' }],
+      { project: 'example', filter: '', generatedAt: 0, toolVersion: '1.0.0', projectPath });
+
+    const result = createImportedAnnotations(parseImportFile('sarif', JSON.parse(sarif)), [], options);
+    const [imported] = result.annotations;
+    assert.strictEqual(imported.filePath, 'src/app.ts');
+    assert.deepStrictEqual(
+      [imported.line, imported.column, imported.author, imported.timestamp, imported.severity, imported.category],
+      [3, 2, 'Alice', 5000, 'critical', 'finding']
+    );
+    assert.deepStrictEqual(imported.tags, ['auth']);
+
+    // Importing the same log again only finds duplicates
+    const again = createImportedAnnotations(parseImportFile('sarif', JSON.parse(sarif)), result.annotations, options);
+    assert.strictEqual(again.annotations.length, 0);
+    assert.strictEqual(again.duplicates, 1);
+  });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { InboxEntry, diffForInbox, findMentions, mentionsUser, mergeInboxEntries } from '../../annotationInbox';
+import { Annotation } from '../../types';
+import { createAnnotation } from './fixtures';
+
+const ME = { name: 'Alice Smith', email: 'asmith@example.com' };
+
+function annotation(id: string, author: string, text: string, extra: Partial<Annotation> = {}): Annotation {
+  return createAnnotation({ id, author, text, ...extra });
+}
+
+suite('Annotation Inbox Test Suite', () => {
+  test('Mentions are found, but not in email addresses', () => {
+    assert.deepStrictEqual(findMentions('@bob and @alice.smith, mail bob@example.com.'), ['bob', 'alice.smith']);
+  });
+
+  test('Mentions match the user by name or email', () => {
+    for (const text of ['@alice', 'cc @AliceSmith', '@alice.smith?', 'ask @asmith']) {
+      assert.ok(mentionsUser(text, ME), text);
+    }
+    assert.ok(!mentionsUser('@alicia', ME));
+    assert.ok(!mentionsUser('alice@example.com', ME));
+  });
+
+  test('New annotations by teammates are reported, own ones are not', () => {
+    const entries = diffForInbox([], [
+      annotation('a', 'Bob', 'Looks wrong'),
+      annotation('b', 'Bob', '@alice please check'),
+      annotation('c', 'Alice Smith', 'My own note'),
+      annotation('d', 'Bob', 'Private', { visibility: 'private' })
+    ], ME);
+    assert.deepStrictEqual(entries, [
+      { annotationId: 'a', reason: 'added', author: 'Bob' },
+      { annotationId: 'b', reason: 'mentioned', author: 'Bob' }
+    ]);
+  });
+
+  test('Replies and edits are reported, moves and own replies are not', () => {
+    const reply = (id: string, author: string, text: string) => ({ id, author, text, timestamp: 2 });
+    const before = [
+      annotation('a', 'Alice Smith', 'Note'),
+      annotation('b', 'Alice Smith', 'Note'),
+      annotation('c', 'Bob', 'Note'),
+      annotation('d', 'Bob', 'Note')
+    ];
+    const after = [
+      { ...before[0], replies: [reply('r1', 'Bob', 'Agreed')] },
+      { ...before[1], replies: [reply('r2', 'Alice Smith', 'Me again')], timestamp: 2 },
+      { ...before[2], text: 'Edited note', timestamp: 3 },
+      { ...before[3], line: 20, anchor: { text: 'moved', before: [], after: [] } }
+    ];
+    assert.deepStrictEqual(diffForInbox(before, after, ME), [
+      { annotationId: 'a', reason: 'replied', author: 'Bob' },
+      { annotationId: 'c', reason: 'edited', author: undefined }
+    ]);
+  });
+
+  test('Merging keeps one entry per annotation and lists mentions first', () => {
+    const entry = (annotationId: string, reason: InboxEntry['reason'], received: number): InboxEntry =>
+      ({ annotationId, projectPath: '/p', reason, received });
+    const merged = mergeInboxEntries(
+      [entry('a', 'mentioned', 1), entry('b', 'added', 2)],
+      [entry('a', 'edited', 3), entry('c', 'replied', 4)]
+    );
+    assert.deepStrictEqual(merged.map(e => [e.annotationId, e.reason, e.received]), [
+      ['a', 'mentioned', 3],
+      ['c', 'replied', 4],
+      ['b', 'added', 2]
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+  createAnnotationUriQuery,
+  escapeLinkLabel,
+  findLinkTargets,
+  parseAnnotationUriQuery,
+  parseLinkTarget,
+  renderLinks,
+  resolveLinkedFile
+} from '../../annotationLinks';
+
+suite('Annotation Links Test Suite', () => {
+  test('References are parsed as locations or annotation IDs', () => {
+    assert.deepStrictEqual(parseLinkTarget('src/a.ts:42'), { filePath: 'src/a.ts', line: 42 });
+    assert.deepStrictEqual(parseLinkTarget(' src/a.ts:42-50 '), { filePath: 'src/a.ts', line: 42, endLine: 50 });
+    assert.deepStrictEqual(parseLinkTarget('src/a.ts:42-7'), { filePath: 'src/a.ts', line: 42, endLine: 42 });
+    assert.deepStrictEqual(parseLinkTarget('3f2a9c1e-1b2c'), { annotationId: '3f2a9c1e-1b2c' });
+    assert.deepStrictEqual(parseLinkTarget('src/a.ts'), { annotationId: 'src/a.ts' });
+  });
+
+  test('References in inline code are left alone', () => {
+    const text = 'See [[abc]] and [[src/a.ts:3]], not `[[ignored]]`';
+    assert.deepStrictEqual(findLinkTargets(text), [
+      { annotationId: 'abc' },
+      { filePath: 'src/a.ts', line: 3 }
+    ]);
+    assert.strictEqual(
+      renderLinks(text, label => `<${label}>`),
+      'See <abc> and <src/a.ts:3>, not `[[ignored]]`'
+    );
+  });
+
+  test('Linked files must be inside the project', () => {
+    const projectPath = path.resolve('/work/app');
+    assert.strictEqual(resolveLinkedFile(projectPath, 'src/a.ts'), path.join(projectPath, 'src', 'a.ts'));
+    assert.strictEqual(resolveLinkedFile(projectPath, '..foo.ts'), path.join(projectPath, '..foo.ts'));
+    assert.strictEqual(resolveLinkedFile(projectPath, '../../etc/passwd'), undefined);
+    assert.strictEqual(resolveLinkedFile(projectPath, 'src/../../other/a.ts'), undefined);
+    assert.strictEqual(resolveLinkedFile(projectPath, path.resolve('/etc/passwd')), undefined);
+    assert.strictEqual(resolveLinkedFile(projectPath, '.'), undefined);
+  });
+
+  test('Link labels are escaped', () => {
+    assert.strictEqual(escapeLinkLabel('a [b] *c*'), 'a \\[b\\] \\*c\\*');
+  });
+
+  test('Deep link queries round-trip', () => {
+    const query = createAnnotationUriQuery('abc', 'github.com/example/repo', 'src\\dir/a b.ts', 12);
+    assert.deepStrictEqual(parseAnnotationUriQuery(query), {
+      annotationId: 'abc',
+      project: 'github.com/example/repo',
+      filePath: 'src/dir/a b.ts',
+      line: 12
+    });
+    assert.strictEqual(parseAnnotationUriQuery('id=abc&line=x').line, undefined);
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { mergeAnnotationData } from '../../annotationMerge';
+import { Annotation, AnnotationData, AnnotationReply } from '../../types';
+import { createAnnotation } from './fixtures';
+
+function annotation(id: string, text: string, timestamp: number, line: number = 1): Annotation {
+  return createAnnotation({ id, text, timestamp, line });
+}
+
+function reply(id: string, text: string, timestamp: number): AnnotationReply {
+  return { id, text, author: 'Alice', timestamp };
+}
+
+function data(...annotations: Annotation[]): AnnotationData {
+  return { version: '1.0', annotations };
+}
+
+suite('Annotation Merge Test Suite', () => {
+  test('Additions from both sides are kept', () => {
+    const base = data(annotation('1', 'one', 1));
+    const result = mergeAnnotationData(
+      'f',
+      base,
+      data(annotation('1', 'one', 1), annotation('2', 'mine', 2)),
+      data(annotation('1', 'one', 1), annotation('3', 'theirs', 3))
+    );
+    assert.deepStrictEqual(result.data.annotations.map(a => a.id), ['1', '2', '3']);
+    assert.strictEqual(result.conflicts.length, 0);
+  });
+
+  test('Concurrent edits use last writer wins', () => {
+    const result = mergeAnnotationData(
+      'f',
+      data(annotation('1', 'one', 1)),
+      data(annotation('1', 'mine', 5)),
+      data(annotation('1', 'theirs', 7))
+    );
+    assert.strictEqual(result.data.annotations[0].text, 'theirs');
+  });
+
+  test('Independent field changes are combined', () => {
+    const result = mergeAnnotationData(
+      'f',
+      data(annotation('1', 'one', 1, 10)),
+      data(annotation('1', 'one', 1, 12)),
+      data(annotation('1', 'edited', 4, 10))
+    );
+    assert.strictEqual(result.data.annotations[0].text, 'edited');
+    assert.strictEqual(result.data.annotations[0].line, 12);
+  });
+
+  test('Deleting an unchanged annotation wins', () => {
+    const result = mergeAnnotationData(
+      'f',
+      data(annotation('1', 'one', 1)),
+      data(),
+      data(annotation('1', 'one', 1))
+    );
+    assert.strictEqual(result.data.annotations.length, 0);
+    assert.strictEqual(result.conflicts.length, 0);
+  });
+
+  test('Deleting an edited annotation is a conflict', () => {
+    const result = mergeAnnotationData(
+      'f',
+      data(annotation('1', 'one', 1)),
+      data(),
+      data(annotation('1', 'edited', 2))
+    );
+    assert.strictEqual(result.data.annotations.length, 0);
+    assert.strictEqual(result.conflicts.length, 1);
+    assert.strictEqual(result.conflicts[0].ours, undefined);
+  });
+
+  test('Replies added on both sides are kept', () => {
+    const base = { ...annotation('1', 'one', 1), replies: [reply('r1', 'first', 1)] };
+    const result = mergeAnnotationData(
+      'f',
+      data(base),
+      data({ ...base, timestamp: 5, replies: [reply('r1', 'first', 1), reply('r2', 'mine', 5)] }),
+      data({ ...base, timestamp: 7, replies: [reply('r1', 'first', 1), reply('r3', 'theirs', 7)] })
+    );
+    const [merged] = result.data.annotations;
+    assert.deepStrictEqual(merged.replies?.map(r => r.text), ['first', 'mine', 'theirs']);
+    assert.strictEqual(merged.timestamp, 7);
+    assert.strictEqual(result.conflicts.length, 0);
+  });
+});
@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { resolveRepositoryConfigs } from '../../annotationRepositories';
+
+suite('Annotation Repositories Test Suite', () => {
+  test('Repositories are named after their folder unless named explicitly', () => {
+    const resolved = resolveRepositoryConfigs('/repos/team', [
+      { path: '/repos/personal' },
+      { path: '/repos/audit', name: 'auditor', readOnly: true }
+    ]);
+    assert.deepStrictEqual(resolved, [
+      { path: '/repos/personal', name: 'personal', readOnly: false },
+      { path: '/repos/audit', name: 'auditor', readOnly: true }
+    ]);
+  });
+
+  test('Repositories listed twice or without a path are dropped', () => {
+    const resolved = resolveRepositoryConfigs('/repos/team', [
+      { path: '/repos/team/' },
+      { path: '' },
+      { path: '/repos/personal' },
+      { path: '/repos/personal', name: 'again' }
+    ]);
+    assert.deepStrictEqual(resolved.map(r => r.name), ['personal']);
+  });
+
+  test('Names are made unique', () => {
+    const resolved = resolveRepositoryConfigs('/a/annotations', [
+      { path: '/b/annotations' },
+      { path: '/c/annotations' }
+    ]);
+    assert.deepStrictEqual(resolved.map(r => r.name), ['annotations (2)', 'annotations (3)']);
+  });
+});
@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import simpleGit from 'simple-git';
+import { createAnchor } from '../../anchor';
+import { AnnotationStorage } from '../../annotationStorage';
+import { GitService } from '../../gitService';
+import { LEGACY_ANNOTATION_FILE, PROJECT_MANIFEST_FILE, SHARD_DIRECTORY, serializeData, shardFileName } from '../../annotationFormat';
+import { legacyProjectFolderName } from '../../projectIdentity';
+import { createAnnotation } from './fixtures';
+
+suite('Annotation Storage Test Suite', () => {
+  let root: string;
+  let sourceRepo: string;
+  let annotationRepo: string;
+  let gitService: GitService;
+
+  setup(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'annotate-'));
+    sourceRepo = path.join(root, 'app');
+    await fs.mkdir(path.join(sourceRepo, 'packages', 'api'), { recursive: true });
+    await fs.mkdir(path.join(sourceRepo, 'packages', 'web'), { recursive: true });
+    await simpleGit(sourceRepo).init();
+    await simpleGit(sourceRepo).addRemote('origin', 'https://github.com/example/app.git');
+
+    // An existing repository, so that initializing it doesn't commit
+    annotationRepo = path.join(root, 'annotations');
+    await fs.mkdir(annotationRepo);
+    await simpleGit(annotationRepo).init();
+    await simpleGit(annotationRepo).addConfig('user.name', 'Alice');
+    await simpleGit(annotationRepo).addConfig('user.email', 'alice@example.com');
+    gitService = new GitService();
+    await gitService.initialize(annotationRepo);
+  });
+
+  teardown(async () => {
+    gitService.dispose();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  function createStorage(): AnnotationStorage {
+    return new AnnotationStorage(gitService, path.join(root, 'private'));
+  }
+
+  test('Subfolders of one repository are separate projects', async () => {
+    const api = path.join(sourceRepo, 'packages', 'api');
+    const web = path.join(sourceRepo, 'packages', 'web');
+    const storage = createStorage();
+    await storage.loadAnnotations(api);
+    await storage.loadAnnotations(web);
+
+    assert.strictEqual(storage.getProjectIdentity(api).key, 'github.com/example/app/packages/api');
+    assert.notStrictEqual(storage.getProjectIdentity(api).id, storage.getProjectIdentity(web).id);
+
+    await storage.addAnnotation(createAnnotation({ id: 'api', filePath: 'server.ts' }), api);
+    await storage.addAnnotation(createAnnotation({ id: 'web', filePath: 'index.ts' }), web);
+
+    const reloaded = createStorage();
+    await reloaded.loadAnnotations(api);
+    await reloaded.loadAnnotations(web);
+    assert.deepStrictEqual(reloaded.getAllAnnotations(api).map(a => a.id), ['api']);
+    assert.deepStrictEqual(reloaded.getAllAnnotations(web).map(a => a.id), ['web']);
+  });
+
+  test('The repository root keeps the remote URL as its key', async () => {
+    const storage = createStorage();
+    await storage.loadAnnotations(sourceRepo);
+    assert.strictEqual(storage.getProjectIdentity(sourceRepo).key, 'github.com/example/app');
+  });
+
+  test('Legacy projects are migrated to shards and read back unchanged', async () => {
+    const projectPath = path.join(root, 'plain');
+    await fs.mkdir(projectPath);
+    const projectDir = path.join(annotationRepo, legacyProjectFolderName(projectPath));
+    await fs.mkdir(projectDir);
+    const annotations = [
+      createAnnotation({ id: '1', filePath: 'src/a.ts' }),
+      createAnnotation({ id: '2', filePath: 'src/b.ts' }),
+      createAnnotation({ id: '3', filePath: 'src/a.ts', line: 2 })
+    ];
+    await fs.writeFile(path.join(projectDir, LEGACY_ANNOTATION_FILE), serializeData({ version: '1.0', annotations }));
+
+    const storage = createStorage();
+    await storage.loadAnnotations(projectPath);
+    assert.strictEqual(await storage.migrateToShardedFormat(projectPath), true);
+    assert.deepStrictEqual(
+      (await fs.readdir(projectDir)).sort(),
+      [SHARD_DIRECTORY, PROJECT_MANIFEST_FILE]
+    );
+    assert.deepStrictEqual(
+      (await fs.readdir(path.join(projectDir, SHARD_DIRECTORY))).sort(),
+      [shardFileName('src/a.ts'), shardFileName('src/b.ts')].sort()
+    );
+
+    const reloaded = createStorage();
+    await reloaded.loadAnnotations(projectPath);
+    const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+    assert.deepStrictEqual(reloaded.getAllAnnotations(projectPath).sort(byId), annotations);
+    assert.strictEqual(await reloaded.migrateToShardedFormat(projectPath), false);
+  });
+
+  test('Projects stored by path are moved to the folder of their remote', async () => {
+    const legacyDir = path.join(annotationRepo, legacyProjectFolderName(sourceRepo));
+    await fs.mkdir(legacyDir);
+    const legacy = { ...createAnnotation({ id: 'old' }), project: undefined, projectPath: sourceRepo };
+    await fs.writeFile(path.join(legacyDir, LEGACY_ANNOTATION_FILE), JSON.stringify({ version: '1.0', annotations: [legacy] }));
+
+    const storage = createStorage();
+    await storage.loadAnnotations(sourceRepo);
+    await assert.rejects(fs.access(legacyDir));
+
+    const reloaded = createStorage();
+    await reloaded.loadAnnotations(sourceRepo);
+    const [migrated] = reloaded.getAllAnnotations(sourceRepo);
+    assert.strictEqual(migrated.id, 'old');
+    assert.strictEqual(migrated.project, 'github.com/example/app');
+    assert.ok(!('projectPath' in migrated));
+  });
+
+  test('Annotations match files whichever separators their paths were saved with', async () => {
+    const storage = createStorage();
+    await storage.loadAnnotations(sourceRepo);
+    await storage.addAnnotation(createAnnotation({ id: 'windows', filePath: 'src\\a.ts' }), sourceRepo);
+    await storage.addAnnotation(createAnnotation({ id: 'posix', filePath: 'src/a.ts' }), sourceRepo);
+
+    for (const filePath of ['src/a.ts', 'src\\a.ts']) {
+      assert.deepStrictEqual(storage.getAnnotationsForFile(filePath, sourceRepo).map(a => a.id), ['windows', 'posix']);
+    }
+  });
+
+  test('Paths saved on different platforms share a shard without losing annotations', async () => {
+    const storage = createStorage();
+    await storage.loadAnnotations(sourceRepo);
+    await storage.addAnnotation(createAnnotation({ id: 'windows', filePath: 'src\\a.ts' }), sourceRepo);
+    await storage.addAnnotation(createAnnotation({ id: 'posix', filePath: 'src/a.ts' }), sourceRepo);
+
+    const reloaded = createStorage();
+    await reloaded.loadAnnotations(sourceRepo);
+    assert.deepStrictEqual(
+      reloaded.getAllAnnotations(sourceRepo).map(a => [a.id, a.filePath]),
+      [['windows', 'src/a.ts'], ['posix', 'src/a.ts']]
+    );
+  });
+
+  test('Replies are saved and mark the annotation as changed', async () => {
+    const storage = createStorage();
+    await storage.loadAnnotations(sourceRepo);
+    await storage.addAnnotation(createAnnotation({ id: 'a', timestamp: 1 }), sourceRepo);
+    await storage.addReply('a', sourceRepo, { id: 'r1', text: 'Agreed', author: 'Bob', timestamp: 2 });
+
+    const reloaded = createStorage();
+    await reloaded.loadAnnotations(sourceRepo);
+    const [annotation] = reloaded.getAllAnnotations(sourceRepo);
+    assert.deepStrictEqual(annotation.replies, [{ id: 'r1', text: 'Agreed', author: 'Bob', timestamp: 2 }]);
+    assert.ok(annotation.timestamp > 1);
+
+    const { timestamp } = annotation;
+    await reloaded.removeReply('a', sourceRepo, 'r1');
+    const [removed] = reloaded.getAllAnnotations(sourceRepo);
+    assert.deepStrictEqual(removed.replies, []);
+    assert.ok(removed.timestamp >= timestamp);
+  });
+
+  test('Annotations are re-located on load without rewriting the repository', async () => {
+    const source = ['import { a } from "a";', 'function login() {', '  return a();', '}'];
+    await fs.writeFile(path.join(sourceRepo, 'app.ts'), source.join('\n'));
+    const storage = createStorage();
+    await storage.loadAnnotations(sourceRepo);
+    await storage.addAnnotation(
+      createAnnotation({ id: 'a', filePath: 'app.ts', line: 2, anchor: createAnchor(source, 2) }),
+      sourceRepo
+    );
+    await storage.commitChanges(sourceRepo, 'Add annotation');
+
+    await fs.writeFile(path.join(sourceRepo, 'app.ts'), ['// Header', '', ...source].join('\n'));
+    const relocated = createStorage();
+    await relocated.loadAnnotations(sourceRepo);
+    assert.strictEqual(relocated.getAllAnnotations(sourceRepo)[0].line, 4);
+    assert.strictEqual((await simpleGit(annotationRepo).status()).isClean(), true);
+
+    const reloaded = createStorage();
+    await fs.rm(path.join(sourceRepo, 'app.ts'));
+    await reloaded.loadAnnotations(sourceRepo);
+    assert.strictEqual(reloaded.getAllAnnotations(sourceRepo)[0].line, 2);
+  });
+});
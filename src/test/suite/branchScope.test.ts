@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { matchesBranchMode } from '../../branchScope';
+import { Annotation } from '../../types';
+import { createAnnotation } from './fixtures';
+
+function annotation(branch?: string): Annotation {
+  return createAnnotation({ branch });
+}
+
+suite('Branch Scope Test Suite', () => {
+  test('All branches shows every annotation', () => {
+    assert.ok(matchesBranchMode(annotation('feature/a'), 'all', 'feature/b'));
+  });
+
+  test('Current branch hides annotations from other branches', () => {
+    assert.ok(matchesBranchMode(annotation('feature/a'), 'current', 'feature/a'));
+    assert.ok(!matchesBranchMode(annotation('feature/a'), 'current', 'feature/b'));
+    assert.ok(!matchesBranchMode(annotation('main'), 'current', 'feature/b'));
+    assert.ok(!matchesBranchMode(annotation('feature/a'), 'current', undefined));
+  });
+
+  test('Current and main also shows annotations from the main branch', () => {
+    assert.ok(matchesBranchMode(annotation('main'), 'currentAndMain', 'feature/b'));
+    assert.ok(matchesBranchMode(annotation('master'), 'currentAndMain', 'feature/b'));
+    assert.ok(!matchesBranchMode(annotation('feature/a'), 'currentAndMain', 'feature/b'));
+  });
+
+  test('Annotations without a branch are always shown', () => {
+    assert.ok(matchesBranchMode(annotation(), 'current', 'feature/b'));
+    assert.ok(matchesBranchMode(annotation(), 'currentAndMain', undefined));
+  });
+});
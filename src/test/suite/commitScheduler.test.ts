@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { CommitScheduler, MAX_PUSH_RETRY_MS, Timers } from '../../commitScheduler';
+
+/**
+ * Timers that only fire when the test advances time
+ */
+class FakeClock implements Timers {
+  now = 0;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextId = 1;
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.now + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Advance time, firing due timers in order and letting the promises they
+   * start settle
+   */
+  async tick(ms: number): Promise<void> {
+    const end = this.now + ms;
+    for (;;) {
+      const due = [...this.timers].filter(([, timer]) => timer.at <= end).sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) {
+        break;
+      }
+      const [id, timer] = due;
+      this.timers.delete(id);
+      this.now = timer.at;
+      timer.callback();
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    this.now = end;
+  }
+}
+
+suite('Commit Scheduler Test Suite', () => {
+  let clock: FakeClock;
+  let commits: string[][];
+  let pushes: number[];
+  let pushFails: boolean;
+  let scheduler: CommitScheduler;
+
+  setup(() => {
+    clock = new FakeClock();
+    commits = [];
+    pushes = [];
+    pushFails = false;
+    scheduler = new CommitScheduler(
+      async () => {
+        commits.push(scheduler.takeMessages());
+      },
+      async () => {
+        pushes.push(clock.now);
+        if (pushFails) {
+          throw new Error('offline');
+        }
+      },
+      error => assert.fail(`${error}`),
+      clock
+    );
+  });
+
+  test('Changes are committed right away without a delay', async () => {
+    await scheduler.add('one');
+    assert.deepStrictEqual(commits, [['one']]);
+    await clock.tick(0);
+    assert.deepStrictEqual(pushes, [0]);
+  });
+
+  test('Changes within the delay are batched into one commit', async () => {
+    scheduler.setDelay(1000);
+    await scheduler.add('one');
+    await clock.tick(600);
+    await scheduler.add('two');
+    await clock.tick(999);
+    assert.deepStrictEqual(commits, []);
+
+    await clock.tick(1);
+    assert.deepStrictEqual(commits, [['one', 'two']]);
+    assert.deepStrictEqual(pushes, [1600]);
+  });
+
+  test('Flushing commits waiting changes before the delay ends', async () => {
+    scheduler.setDelay(1000);
+    await scheduler.add('one');
+    await scheduler.flush();
+    assert.deepStrictEqual(commits, [['one']]);
+    await clock.tick(5000);
+    assert.deepStrictEqual(commits, [['one']]);
+  });
+
+  test('Failed pushes are retried with backoff up to the maximum', async () => {
+    pushFails = true;
+    await scheduler.add('one');
+    await clock.tick(20 * 60 * 1000);
+    const intervals = pushes.slice(1).map((at, index) => at - pushes[index]);
+    assert.deepStrictEqual(intervals.slice(0, 7), [5000, 10000, 20000, 40000, 80000, 160000, MAX_PUSH_RETRY_MS]);
+    assert.ok(intervals.every(interval => interval <= MAX_PUSH_RETRY_MS));
+  });
+
+  test('A successful push resets the backoff', async () => {
+    pushFails = true;
+    await scheduler.add('one');
+    await clock.tick(15000);
+    assert.deepStrictEqual(pushes, [0, 5000, 15000]);
+
+    pushFails = false;
+    await clock.tick(20000);
+    assert.deepStrictEqual(pushes, [0, 5000, 15000, 35000]);
+
+    pushFails = true;
+    await scheduler.add('two');
+    await clock.tick(5000);
+    assert.deepStrictEqual(pushes.slice(4), [35000, 40000]);
+  });
+
+  test('Cancelling stops retries but keeps waiting changes', async () => {
+    scheduler.setDelay(1000);
+    pushFails = true;
+    await scheduler.add('one');
+    scheduler.cancel();
+    await clock.tick(10000);
+    assert.deepStrictEqual(commits, []);
+
+    await scheduler.flush();
+    assert.deepStrictEqual(commits, [['one']]);
+  });
+});
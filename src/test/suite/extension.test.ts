@@ -14,5 +14,6 @@ suite('Extension Test Suite', () => {
     assert.ok(commands.includes('vscode-annotate.addAnnotation'));
     assert.ok(commands.includes('vscode-annotate.configureRepo'));
     assert.ok(commands.includes('vscode-annotate.syncAnnotations'));
+    assert.ok(commands.includes('vscode-annotate.searchAnnotations'));
   });
 });
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { applyRename, applyRenames, followRenames, parseRenames } from '../../fileRenames';
+
+suite('File Renames Test Suite', () => {
+  test('Renaming a file or a containing folder changes the path', () => {
+    const folder = { oldPath: 'src/auth', newPath: 'src/login' };
+    assert.strictEqual(applyRename('src/a.ts', { oldPath: 'src/a.ts', newPath: 'src/b.ts' }), 'src/b.ts');
+    assert.strictEqual(applyRename('src/auth/token.ts', folder), 'src/login/token.ts');
+    assert.strictEqual(applyRename('src/authz.ts', folder), undefined);
+  });
+
+  test('Paths saved on Windows are renamed with forward slashes', () => {
+    const folder = { oldPath: 'src/auth', newPath: 'src/login' };
+    assert.strictEqual(applyRename('src\\auth\\token.ts', folder), 'src/login/token.ts');
+    assert.strictEqual(followRenames('src\\auth', [folder]), 'src/login');
+  });
+
+  test('Simultaneous renames are not chained', () => {
+    const swap = [{ oldPath: 'a.ts', newPath: 'b.ts' }, { oldPath: 'b.ts', newPath: 'a.ts' }];
+    assert.strictEqual(applyRenames('a.ts', swap), 'b.ts');
+    assert.strictEqual(applyRenames('b.ts', swap), 'a.ts');
+    assert.strictEqual(applyRenames('c.ts', swap), undefined);
+  });
+
+  test('Successive renames are followed to the current path', () => {
+    const history = [
+      { oldPath: 'old.ts', newPath: 'middle.ts' },
+      { oldPath: 'other.ts', newPath: 'elsewhere.ts' },
+      { oldPath: 'middle.ts', newPath: 'new.ts' }
+    ];
+    assert.strictEqual(followRenames('old.ts', history), 'new.ts');
+    assert.strictEqual(followRenames('unrelated.ts', history), undefined);
+  });
+
+  test('Renames are parsed from name-status output', () => {
+    const output = 'M\tREADME.md\nR100\tsrc/a.ts\tsrc/b.ts\n\nR087\tlib/c.ts\tlib/d.ts\nA\tnew.ts\n';
+    assert.deepStrictEqual(parseRenames(output), [
+      { oldPath: 'src/a.ts', newPath: 'src/b.ts' },
+      { oldPath: 'lib/c.ts', newPath: 'lib/d.ts' }
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { Annotation } from '../../types';
+
+/**
+ * An annotation with placeholder values for every field not given
+ */
+export function createAnnotation(fields: Partial<Annotation> = {}): Annotation {
+  return {
+    id: 'a1',
+    filePath: 'src/app.ts',
+    line: 1,
+    column: 0,
+    text: 'note',
+    author: 'Alice',
+    timestamp: 0,
+    project: 'example',
+    ...fields
+  };
+}
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { shiftLine, AnnotationPositionTracker, LineChange } from '../../positionTracker';
+import { Annotation } from '../../types';
+
+function change(startLine: number, startChar: number, endLine: number, endChar: number, text: string): LineChange {
+  return {
+    range: {
+      start: { line: startLine, character: startChar },
+      end: { line: endLine, character: endChar }
+    },
+    text
+  };
+}
+
+suite('Position Tracker Test Suite', () => {
+  test('Lines inserted above shift the annotation down', () => {
+    assert.strictEqual(shiftLine(10, change(2, 0, 2, 0, 'a\nb\n')), 12);
+  });
+
+  test('Enter at the start of the annotated line shifts it down', () => {
+    assert.strictEqual(shiftLine(5, change(5, 0, 5, 0, '\n')), 6);
+  });
+
+  test('Enter in the middle of the annotated line keeps it in place', () => {
+    assert.strictEqual(shiftLine(5, change(5, 4, 5, 4, '\n')), 5);
+  });
+
+  test('Lines deleted above shift the annotation up', () => {
+    assert.strictEqual(shiftLine(10, change(2, 0, 5, 0, '')), 7);
+  });
+
+  test('Deleting the annotated line keeps it at the edit', () => {
+    assert.strictEqual(shiftLine(4, change(3, 0, 6, 0, '')), 3);
+  });
+
+  test('Edits below the annotation are ignored', () => {
+    assert.strictEqual(shiftLine(4, change(8, 0, 8, 0, 'x\ny\n')), 4);
+  });
+
+  test('Tracker accumulates shifts until taken', () => {
+    const annotation = { id: 'a1', line: 5 } as Annotation;
+    const tracker = new AnnotationPositionTracker();
+
+    assert.ok(tracker.applyChanges('file:///a.ts', [annotation], [change(0, 0, 0, 0, '\n')]));
+    assert.ok(tracker.applyChanges('file:///a.ts', [annotation], [change(0, 0, 0, 0, '\n\n')]));
+    assert.strictEqual(tracker.applyPending('file:///a.ts', [annotation])[0].line, 8);
+
+    const pending = tracker.takePending('file:///a.ts');
+    assert.strictEqual(pending?.get('a1')?.line, 8);
+    assert.strictEqual(tracker.takePending('file:///a.ts'), undefined);
+  });
+
+  test('Range annotations shift both ends', () => {
+    const annotation = { id: 'r1', line: 5, endLine: 9 } as Annotation;
+    const tracker = new AnnotationPositionTracker();
+
+    tracker.applyChanges('file:///a.ts', [annotation], [change(6, 0, 6, 0, 'x\ny\n')]);
+    const shifted = tracker.applyPending('file:///a.ts', [annotation])[0];
+    assert.strictEqual(shifted.line, 5);
+    assert.strictEqual(shifted.endLine, 11);
+  });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { parseTags, relativeAnnotationPath, toAnnotationPath } from '../../types';
+
+suite('Types Test Suite', () => {
+  test('Tags are split on commas and spaces without duplicates', () => {
+    assert.deepStrictEqual(parseTags('auth, crypto  auth,,xss'), ['auth', 'crypto', 'xss']);
+    assert.deepStrictEqual(parseTags(' , '), []);
+  });
+
+  test('Tags differing only in case are the same tag', () => {
+    assert.deepStrictEqual(parseTags('Crypto crypto CRYPTO'), ['crypto']);
+  });
+
+  test('Hashes and punctuation around tags are dropped', () => {
+    assert.deepStrictEqual(parseTags('#auth; ##xss: sql-injection, c++ input_validation'), [
+      'auth',
+      'xss',
+      'sql-injection',
+      'c++',
+      'input_validation'
+    ]);
+  });
+
+  test('A tag at the end of the text is kept', () => {
+    assert.deepStrictEqual(parseTags('Needs review #crypto.'), ['needs', 'review', 'crypto']);
+    assert.deepStrictEqual(parseTags('auth, #xss'), ['auth', 'xss']);
+  });
+
+  test('Annotation paths use forward slashes on every platform', () => {
+    const projectPath = path.resolve('/work/app');
+    assert.strictEqual(relativeAnnotationPath(projectPath, path.join(projectPath, 'src', 'auth', 'a.ts')), 'src/auth/a.ts');
+    assert.strictEqual(toAnnotationPath('src\\auth\\a.ts'), 'src/auth/a.ts');
+    assert.strictEqual(toAnnotationPath('src/a.ts'), 'src/a.ts');
+  });
+});
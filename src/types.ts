@@ -1,12 +1,154 @@
+import * as path from 'path';
+
 export interface Annotation {
   id: string;
+  /** Relative to the project, with forward slashes on every platform */
   filePath: string;
   line: number;
   column: number;
+  /** End of a range annotation (1-indexed line); absent for single-line annotations */
+  endLine?: number;
+  /** End column of a range annotation (0-indexed) */
+  endColumn?: number;
+  text: string;
+  author: string;
+  timestamp: number;
+  /** Portable project identity: normalized remote URL, or folder name without a remote */
+  project: string;
+  anchor?: AnnotationAnchor;
+  /** Replies in the order they were posted */
+  replies?: AnnotationReply[];
+  tags?: string[];
+  severity?: AnnotationSeverity;
+  /** Free-form classification, e.g. "finding" or "question" */
+  category?: string;
+  /** Review status; absent means open */
+  status?: AnnotationStatus;
+  /** Every status change, oldest first */
+  statusHistory?: AnnotationStatusChange[];
+  /** Source repository branch the annotation was made on, if recorded */
+  branch?: string;
+  /** Source repository commit checked out when the annotation was made, if recorded */
+  commit?: string;
+  /** Private annotations stay on this machine; absent means shared */
+  visibility?: AnnotationVisibility;
+  /** Archived annotations are kept in the repository but no longer shown */
+  archived?: boolean;
+}
+
+/**
+ * Annotation file path form of a relative path, so that annotations made on
+ * Windows match files on Linux and macOS and the other way round
+ */
+export function toAnnotationPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * Annotation file path of a file in a project
+ */
+export function relativeAnnotationPath(projectPath: string, absolutePath: string): string {
+  return toAnnotationPath(path.relative(projectPath, absolutePath));
+}
+
+export type AnnotationVisibility = 'shared' | 'private';
+
+/**
+ * Private annotations are kept in a local store and never committed
+ */
+export function isPrivate(annotation: Annotation): boolean {
+  return annotation.visibility === 'private';
+}
+
+export function isArchived(annotation: Annotation): boolean {
+  return annotation.archived === true;
+}
+
+export type AnnotationStatus = 'open' | 'inProgress' | 'resolved' | 'wontFix';
+
+export const STATUSES: AnnotationStatus[] = ['open', 'inProgress', 'resolved', 'wontFix'];
+
+const STATUS_LABELS: Record<AnnotationStatus, string> = {
+  open: 'Open',
+  inProgress: 'In Progress',
+  resolved: 'Resolved',
+  wontFix: "Won't Fix"
+};
+
+export interface AnnotationStatusChange {
+  status: AnnotationStatus;
+  author: string;
+  timestamp: number;
+}
+
+export function getStatus(annotation: Annotation): AnnotationStatus {
+  return annotation.status ?? 'open';
+}
+
+export function getStatusLabel(status: AnnotationStatus): string {
+  return STATUS_LABELS[status];
+}
+
+/**
+ * Resolved and won't-fix annotations no longer need attention
+ */
+export function isClosed(annotation: Annotation): boolean {
+  const status = getStatus(annotation);
+  return status === 'resolved' || status === 'wontFix';
+}
+
+/**
+ * How closed annotations are shown in the editor
+ */
+export type ClosedAnnotationDisplay = 'dimmed' | 'hidden' | 'shown';
+
+export type AnnotationSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+/** Severities from most to least severe */
+export const SEVERITIES: AnnotationSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+const SEVERITY_ICONS: Record<AnnotationSeverity, string> = {
+  critical: '🛑',
+  high: '🔴',
+  medium: '🟠',
+  low: '🟡',
+  info: '🔵'
+};
+
+export function getSeverityIcon(severity: AnnotationSeverity): string {
+  return SEVERITY_ICONS[severity];
+}
+
+/**
+ * Normalize user-entered tags: lower case, without a leading # or trailing
+ * punctuation, deduplicated
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,;\s]+/)
+    .map(tag => tag.replace(/^#+/, '').replace(/[.:!?]+$/, '').toLowerCase())
+    .filter(tag => tag.length > 0);
+  return [...new Set(tags)];
+}
+
+export interface AnnotationReply {
+  id: string;
   text: string;
   author: string;
   timestamp: number;
-  projectPath: string;
+}
+
+/**
+ * Content fingerprint used to re-locate an annotation after its file changes
+ */
+export interface AnnotationAnchor {
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+export function isRangeAnnotation(annotation: Annotation): boolean {
+  return annotation.endLine !== undefined;
 }
 
 export function isMultiLine(text: string): boolean {
@@ -32,4 +174,6 @@ export function truncateText(text: string, maxLength: number = 60): string {
 export interface AnnotationData {
   annotations: Annotation[];
   version: string;
+  /** Source file covered by a version 2.0 shard */
+  filePath?: string;
 }